@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+
+import { main } from './cli.js';
+
+// Entry point of the mcp-command-proxy command, kept apart from cli.ts so that importing it does not start a server
+main().catch(error => {
+  console.error('Unhandled error:', error);
+  process.exit(1);
+});
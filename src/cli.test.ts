@@ -0,0 +1,181 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseArgs } from './cli';
+
+// Mock the server, which parsing arguments does not need, and node-pty, which the runner modules load
+jest.mock('./index', () => ({
+  createServer: jest.fn(),
+}));
+jest.mock('node-pty', () => ({
+  spawn: jest.fn(),
+}));
+
+describe('parseArgs', () => {
+  let directory: string;
+  let exit: jest.SpyInstance;
+  let errors: jest.SpyInstance;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'mcp-command-proxy-'));
+    exit = jest.spyOn(process, 'exit').mockImplementation(((code: number) => {
+      throw new Error(`exit ${code}`);
+    }) as never);
+    errors = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    exit.mockRestore();
+    errors.mockRestore();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeConfig = (config: object): string => {
+    const path = join(directory, 'config.json');
+    writeFileSync(path, JSON.stringify(config));
+    return path;
+  };
+
+  /**
+   * Parse arguments that are expected to be rejected
+   * @returns The error message printed before exiting
+   */
+  const failure = (args: string[]): string => {
+    expect(() => parseArgs(args)).toThrow('exit 1');
+    return errors.mock.calls[0].join(' ');
+  };
+
+  it('should apply defaults to a single command', () => {
+    expect(parseArgs(['-c', 'expo start'])).toEqual(expect.objectContaining({
+      prefix: 'CommandProxy',
+      commands: [{ name: 'default', command: 'expo start' }],
+      bufferSize: 300,
+      port: 8080,
+      host: '127.0.0.1',
+      transport: 'http',
+      allowedOrigins: [],
+      policy: undefined,
+    }));
+  });
+
+  it('should let flags override the values of the config file', () => {
+    const path = writeConfig({
+      prefix: 'Dev',
+      port: 8383,
+      bufferSize: 500,
+      allowedOrigins: ['https://a.example.com'],
+      commands: ['expo start', { name: 'api', command: 'npm run api', mode: 'pipe' }],
+    });
+
+    const options = parseArgs(['--config', path, '--port', '9000', '--allowed-origin', 'https://b.example.com', '--mode', 'pty']);
+
+    expect(options).toEqual(expect.objectContaining({
+      configFile: path,
+      prefix: 'Dev',
+      port: 9000,
+      bufferSize: 500,
+      allowedOrigins: ['https://a.example.com', 'https://b.example.com'],
+    }));
+    // Command options given before any --command apply to the commands of the file
+    expect(options.commands).toEqual([
+      expect.objectContaining({ name: 'default', command: 'expo start', mode: 'pty' }),
+      expect.objectContaining({ name: 'api', command: 'npm run api', mode: 'pty' }),
+    ]);
+  });
+
+  it('should replace the commands of the config file with those given as flags', () => {
+    const path = writeConfig({ cwd: 'app', env: { PORT: '3000' }, commands: ['expo start'] });
+
+    expect(parseArgs(['--config', path, '-c', 'web=vite', '--env', 'PORT=4000']).commands).toEqual([
+      { name: 'web', command: 'vite', cwd: join(directory, 'app'), env: { PORT: '4000' }, cleanEnv: undefined },
+    ]);
+  });
+
+  it('should scope command options to the preceding command', () => {
+    const { commands } = parseArgs([
+      '--mode', 'pipe', '--env', 'SHARED=1',
+      '-c', 'api=npm run api', '--restart', 'on-failure', '--env', 'PORT=3000',
+      '-c', 'build=npm run build && npm start', '--shell',
+    ]);
+
+    expect(commands).toEqual([
+      expect.objectContaining({
+        name: 'api',
+        mode: 'pipe',
+        env: { SHARED: '1', PORT: '3000' },
+        restartPolicy: { mode: 'on-failure' },
+      }),
+      expect.objectContaining({ name: 'build', mode: 'pipe', shell: true, env: { SHARED: '1' } }),
+    ]);
+    expect(commands[1].restartPolicy).toBeUndefined();
+  });
+
+  it('should take the arguments after -- as a command without parsing them', () => {
+    expect(parseArgs(['-c', 'api=npm run api', '--port', '8383', '--', 'npx', 'expo', 'start', '--clear']).commands).toEqual([
+      expect.objectContaining({ name: 'api', command: 'npm run api' }),
+      expect.objectContaining({ name: 'default', command: ['npx', 'expo', 'start', '--clear'] }),
+    ]);
+  });
+
+  it('should combine input policies of the config file and flags', () => {
+    const path = writeConfig({ commands: ['expo start'], policy: { allowedInput: [], disabledTools: ['stopProcess'] } });
+
+    expect(parseArgs(['--config', path]).policy).toEqual({
+      readOnly: false,
+      allowedInput: [],
+      enabledTools: [],
+      disabledTools: ['stopProcess'],
+    });
+    expect(parseArgs(['--config', path, '--read-only', '--allow-input', 'r', '--enable-tool', 'restartProcess']).policy).toEqual({
+      readOnly: true,
+      allowedInput: ['r'],
+      enabledTools: ['restartProcess'],
+      disabledTools: ['stopProcess'],
+    });
+    expect(parseArgs(['-c', 'expo start', '--disable-tool', 'sendText']).policy).toEqual(
+      expect.objectContaining({ allowedInput: undefined, disabledTools: ['sendText'] }),
+    );
+  });
+
+  it('should reject invalid values', () => {
+    expect(failure(['-c', 'a', '--port', 'abc'])).toContain('--port must be an integer between 1 and 65535, got "abc"');
+  });
+
+  it('should reject unknown options and missing values', () => {
+    expect(failure(['-c', 'a', '--verbose'])).toContain('Unknown option "--verbose"');
+    errors.mockClear();
+    expect(failure(['-c'])).toContain('-c requires a value');
+  });
+
+  it('should reject invalid choices, assignments and directories', () => {
+    expect(failure(['-c', 'a', '--mode', 'tty'])).toContain('--mode must be one of pty, pipe, got "tty"');
+    errors.mockClear();
+    expect(failure(['-c', 'a', '--env', 'PORT'])).toContain('--env must be given as KEY=VALUE');
+    errors.mockClear();
+    expect(failure(['-c', 'a', '--cwd', join(directory, 'missing')])).toContain('--cwd must be an existing directory');
+  });
+
+  it('should reject duplicate command names and missing commands', () => {
+    expect(failure(['-c', 'api=a', '-c', 'api=b'])).toContain('Duplicate command name "api"');
+    errors.mockClear();
+    jest.spyOn(console, 'log').mockImplementationOnce(() => undefined);
+    expect(failure([])).toContain('Command is required');
+  });
+
+  it('should reject commands that need a shell before starting any', () => {
+    expect(failure(['-c', 'api=npm run api', '-c', 'build=npm run build && npm start'])).toContain(
+      'Command "build": Command uses shell syntax "&&", run it with the shell option (--shell) instead',
+    );
+    errors.mockClear();
+    expect(failure(['-c', 'echo "unterminated'])).toContain('Command "default": ');
+    errors.mockClear();
+    expect(failure(['--config', writeConfig({ commands: ['ls *.ts'] })])).toContain('Command "default": ');
+    expect(parseArgs(['--config', writeConfig({ commands: ['ls *.ts'] }), '--shell']).commands).toEqual([
+      expect.objectContaining({ command: 'ls *.ts', shell: true }),
+    ]);
+  });
+
+  it('should report invalid config files', () => {
+    expect(failure(['--config', writeConfig({ port: 'abc' })])).toContain('port: Expected number, received string');
+  });
+});
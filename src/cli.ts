@@ -1,39 +1,338 @@
-#!/usr/bin/env node
-
+import { statSync } from 'fs';
+import { resolve } from 'path';
 import { createServer } from './index.js';
+import { checkCommandLine, CommandDefinition, defaultProcessName, parseCommandSpec } from './utils/process-manager.js';
+import { RESTART_MODES, RestartPolicy } from './utils/restart-policy.js';
+import { LogFileOptions } from './utils/log-file.js';
+import { SPAWN_MODES, SpawnMode } from './utils/process-handle.js';
+import { quoteShellWord } from './utils/shell-words.js';
+import { ToolPolicyOptions } from './utils/policy.js';
+import { findConfigFile, loadConfigFile, loadEnvFiles, ProxyConfig, toCommandDefinitions } from './utils/config.js';
+
+/**
+ * Print an error message and exit
+ */
+function fail(message: string): never {
+  console.error(`Error: ${message}`);
+  process.exit(1);
+}
+
+/**
+ * Get the value of a flag
+ */
+function requireValue(flag: string, value: string | undefined): string {
+  if (value === undefined) {
+    fail(`${flag} requires a value`);
+  }
+  return value;
+}
+
+/**
+ * Parse the value of a numeric flag
+ */
+function parseInteger(flag: string, value: string | undefined, min: number = 1, max: number = Infinity): number {
+  const number = Number(requireValue(flag, value));
+  if (value?.trim() === '' || !Number.isInteger(number) || number < min || number > max) {
+    const range = max === Infinity ? `at least ${min}` : `between ${min} and ${max}`;
+    fail(`${flag} must be an integer ${range}, got "${value}"`);
+  }
+  return number;
+}
+
+/**
+ * Parse the value of a flag that only accepts some values
+ */
+function parseChoice<T extends string>(flag: string, value: string | undefined, choices: readonly T[]): T {
+  if (!choices.includes(value as T)) {
+    fail(`${flag} must be one of ${choices.join(', ')}, got "${value ?? ''}"`);
+  }
+  return value as T;
+}
+
+/**
+ * Parse the value of a directory flag
+ * @returns The absolute path of the directory
+ */
+function parseDirectory(flag: string, value: string | undefined): string {
+  const path = resolve(requireValue(flag, value));
+  let isDirectory = false;
+  try {
+    isDirectory = statSync(path).isDirectory();
+  } catch {
+    // Reported below
+  }
+  if (!isDirectory) {
+    fail(`${flag} must be an existing directory, got "${value}"`);
+  }
+  return path;
+}
+
+/**
+ * Parse the value of a KEY=VALUE flag
+ */
+function parseAssignment(flag: string, value: string | undefined): [string, string] {
+  const match = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/s.exec(requireValue(flag, value));
+  if (!match) {
+    fail(`${flag} must be given as KEY=VALUE, got "${value}"`);
+  }
+  return [match[1], match[2]];
+}
+
+// Parse command line arguments, on top of the values of the config file
+export function parseArgs(args: string[] = process.argv.slice(2)): {
+  prefix: string;
+  commands: CommandDefinition[];
+  bufferSize: number;
+  bufferBytes?: number;
+  bufferMaxAge?: number;
+  cols?: number;
+  rows?: number;
+  port: number;
+  host: string;
+  token?: string;
+  allowedOrigins: string[];
+  transport: 'http' | 'stdio';
+  logFile?: LogFileOptions;
+  auditFile?: string;
+  policy?: ToolPolicyOptions;
+  configFile?: string;
+} {
+  // Load the config file first so that flags override its values
+  const optionsEnd = args.includes('--') ? args.indexOf('--') : args.length;
+  const configIndex = args.slice(0, optionsEnd).indexOf('--config');
+  const configFile = configIndex >= 0
+    ? requireValue('--config', args[configIndex + 1])
+    : findConfigFile(process.cwd()) ?? undefined;
+  let config: ProxyConfig = {};
+  if (configFile) {
+    try {
+      config = loadConfigFile(configFile);
+    } catch (error) {
+      fail((error as Error).message);
+    }
+  }
 
-// Parse command line arguments
-export function parseArgs(): { prefix: string; command: string; bufferSize: number; port: number } {
-  const args = process.argv.slice(2);
-  let prefix = 'CommandProxy';
-  let command = '';
-  let bufferSize = 300;
-  let port = 8080;
+  let prefix = config.prefix ?? 'CommandProxy';
+  const commands: CommandDefinition[] = [];
+  let unnamed = 0;
+  let bufferSize = config.bufferSize ?? 300;
+  let bufferBytes = config.bufferBytes;
+  let bufferMaxAge = config.bufferMaxAge;
+  let cols = config.cols;
+  let rows = config.rows;
+  let port = config.port ?? 8080;
+  let host = config.host ?? '127.0.0.1';
+  let token = process.env.MCP_PROXY_TOKEN || config.token;
+  const allowedOrigins: string[] = [...(config.allowedOrigins || [])];
+  let transport: 'http' | 'stdio' = config.transport ?? 'http';
+  let logDirectory = config.logFile?.directory;
+  const logFileOptions: Omit<LogFileOptions, 'directory'> = {};
+  let auditFile = config.auditFile;
+  let readOnly = config.policy?.readOnly ?? false;
+  const allowedInput: string[] = [...(config.policy?.allowedInput || [])];
+  const enabledTools: string[] = [...(config.policy?.enabledTools || [])];
+  const disabledTools: string[] = [...(config.policy?.disabledTools || [])];
+
+  // Command-specific options apply to the preceding --command, or to all commands before the first one
+  type CommandOptions = {
+    mode?: SpawnMode;
+    shell?: boolean;
+    cwd?: string;
+    env: Record<string, string>;
+    cleanEnv?: boolean;
+    restart: Partial<RestartPolicy>;
+  };
+  const defaultOptions: CommandOptions = { env: {}, restart: {} };
+  const commandOptions: CommandOptions[] = [];
+  const currentOptions = (): CommandOptions =>
+    commandOptions.length > 0 ? commandOptions[commandOptions.length - 1] : defaultOptions;
+  const currentRestart = (): Partial<RestartPolicy> => currentOptions().restart;
+  const addCommand = (name: string | undefined, command: string | string[]): void => {
+    commands.push({ name: name || defaultProcessName(++unnamed), command });
+    commandOptions.push({ env: {}, restart: {} });
+  };
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
     
     if (arg === '--prefix' || arg === '-p') {
-      prefix = args[++i] || prefix;
+      prefix = requireValue(arg, args[++i]);
+    } else if (arg === '--config') {
+      // Already loaded
+      i++;
     } else if (arg === '--command' || arg === '-c') {
-      command = args[++i] || command;
+      const { name, command } = parseCommandSpec(requireValue(arg, args[++i]));
+      addCommand(name, command);
+    } else if (arg === '--') {
+      // Everything after -- is a command passed as is, without parsing or a shell
+      if (i + 1 < args.length) {
+        addCommand(undefined, args.slice(i + 1));
+      }
+      break;
+    } else if (arg === '--shell') {
+      currentOptions().shell = true;
+    } else if (arg === '--mode') {
+      currentOptions().mode = parseChoice(arg, args[++i], SPAWN_MODES);
+    } else if (arg === '--cwd') {
+      currentOptions().cwd = parseDirectory(arg, args[++i]);
+    } else if (arg === '--env') {
+      const [name, value] = parseAssignment(arg, args[++i]);
+      currentOptions().env[name] = value;
+    } else if (arg === '--env-file') {
+      try {
+        Object.assign(currentOptions().env, loadEnvFiles(requireValue(arg, args[++i])));
+      } catch (error) {
+        fail((error as Error).message);
+      }
+    } else if (arg === '--clean-env') {
+      currentOptions().cleanEnv = true;
+    } else if (arg === '--restart') {
+      currentRestart().mode = parseChoice(arg, args[++i], RESTART_MODES);
+    } else if (arg === '--max-restarts') {
+      currentRestart().maxRestarts = parseInteger(arg, args[++i]);
+    } else if (arg === '--restart-window') {
+      currentRestart().window = parseInteger(arg, args[++i]);
+    } else if (arg === '--restart-delay') {
+      currentRestart().initialDelay = parseInteger(arg, args[++i], 0);
+    } else if (arg === '--max-restart-delay') {
+      currentRestart().maxDelay = parseInteger(arg, args[++i], 0);
     } else if (arg === '--buffer-size' || arg === '-b') {
-      bufferSize = parseInt(args[++i] || String(bufferSize), 10);
+      bufferSize = parseInteger(arg, args[++i]);
+    } else if (arg === '--buffer-bytes') {
+      bufferBytes = parseInteger(arg, args[++i]);
+    } else if (arg === '--buffer-max-age') {
+      bufferMaxAge = parseInteger(arg, args[++i]);
+    } else if (arg === '--cols') {
+      cols = parseInteger(arg, args[++i]);
+    } else if (arg === '--rows') {
+      rows = parseInteger(arg, args[++i]);
     } else if (arg === '--port') {
-      port = parseInt(args[++i] || String(port), 10);
+      port = parseInteger(arg, args[++i], 1, 65535);
+    } else if (arg === '--host') {
+      host = requireValue(arg, args[++i]);
+    } else if (arg === '--token') {
+      token = requireValue(arg, args[++i]);
+    } else if (arg === '--allowed-origin') {
+      allowedOrigins.push(requireValue(arg, args[++i]));
+    } else if (arg === '--transport' || arg === '-t') {
+      transport = parseChoice(arg, args[++i], ['http', 'stdio'] as const);
+    } else if (arg === '--log-dir') {
+      logDirectory = requireValue(arg, args[++i]);
+    } else if (arg === '--log-max-size') {
+      logFileOptions.maxBytes = parseInteger(arg, args[++i]);
+    } else if (arg === '--log-rotate-interval') {
+      logFileOptions.rotateInterval = parseInteger(arg, args[++i]);
+    } else if (arg === '--log-max-files') {
+      logFileOptions.maxFiles = parseInteger(arg, args[++i]);
+    } else if (arg === '--log-max-age') {
+      logFileOptions.maxAge = parseInteger(arg, args[++i]);
+    } else if (arg === '--audit-file') {
+      auditFile = requireValue(arg, args[++i]);
+    } else if (arg === '--read-only') {
+      readOnly = true;
+    } else if (arg === '--allow-input') {
+      allowedInput.push(requireValue(arg, args[++i]));
+    } else if (arg === '--enable-tool') {
+      enabledTools.push(requireValue(arg, args[++i]));
+    } else if (arg === '--disable-tool') {
+      disabledTools.push(requireValue(arg, args[++i]));
     } else if (arg === '--help' || arg === '-h') {
       showHelp();
       process.exit(0);
+    } else {
+      fail(`Unknown option "${arg}", see --help`);
+    }
+  }
+
+  // Commands given as flags replace those of the config file
+  const useConfigCommands = commands.length === 0;
+  if (useConfigCommands) {
+    try {
+      commands.push(...toCommandDefinitions(config, defaultOptions.shell));
+    } catch (error) {
+      fail((error as Error).message);
     }
   }
 
-  if (!command) {
+  if (commands.length === 0) {
     console.error('Error: Command is required');
     showHelp();
     process.exit(1);
   }
 
-  return { prefix, command, bufferSize, port };
+  const names = commands.map((c) => c.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    fail(`Duplicate command name "${duplicate}"`);
+  }
+
+  commands.forEach((definition, index) => {
+    const ownOptions: Partial<CommandOptions> = useConfigCommands ? {} : commandOptions[index];
+    const options = { ...defaultOptions, ...ownOptions };
+    if (!useConfigCommands) {
+      definition.cwd = config.cwd;
+      try {
+        definition.env = { ...loadEnvFiles(config.envFile), ...config.env };
+      } catch (error) {
+        fail((error as Error).message);
+      }
+      definition.cleanEnv = config.cleanEnv;
+    }
+    if (options.cwd) {
+      definition.cwd = options.cwd;
+    }
+    const env = { ...definition.env, ...defaultOptions.env, ...ownOptions.env };
+    definition.env = Object.keys(env).length > 0 ? env : undefined;
+    if (options.cleanEnv) {
+      definition.cleanEnv = true;
+    }
+    if (options.mode) {
+      definition.mode = options.mode;
+    }
+    if (options.shell) {
+      definition.shell = true;
+    }
+    const restart = {
+      ...definition.restartPolicy,
+      ...defaultOptions.restart,
+      ...ownOptions.restart
+    };
+    if (restart.mode) {
+      definition.restartPolicy = restart as RestartPolicy;
+    }
+    try {
+      checkCommandLine(definition);
+    } catch (error) {
+      fail((error as Error).message);
+    }
+  });
+
+  return {
+    prefix,
+    commands,
+    bufferSize,
+    bufferBytes,
+    bufferMaxAge,
+    cols,
+    rows,
+    port,
+    host,
+    token,
+    allowedOrigins,
+    transport,
+    logFile: logDirectory ? { ...config.logFile, directory: logDirectory, ...logFileOptions } : undefined,
+    auditFile,
+    policy: config.policy || readOnly || allowedInput.length > 0 || enabledTools.length > 0 || disabledTools.length > 0
+      ? {
+        readOnly,
+        // An empty allow-list from the config file allows no input at all
+        allowedInput: allowedInput.length > 0 || config.policy?.allowedInput ? allowedInput : undefined,
+        enabledTools,
+        disabledTools
+      }
+      : undefined,
+    configFile
+  };
 }
 
 export function showHelp(): void {
@@ -42,63 +341,158 @@ MCP Command Proxy - Run CLI commands with MCP
 
 Usage:
   mcp-command-proxy [options]
+  mcp-command-proxy [options] -- <command> [args...]
 
 Options:
+  --config            JSON or YAML config file (default: mcp-command-proxy.config.json,
+                      .yaml or .yml in the current directory, if present).
+                      Options given as flags override the values of the file
   --prefix, -p        Name/prefix for the server (default: "CommandProxy")
-  --command, -c       Command to run (required)
+  --command, -c       Command to run (required unless given in the config file,
+                      whose commands it replaces). Repeat to run several commands,
+                      optionally named as name=command (lowercase name). Quotes
+                      and leading NAME=value assignments are handled as in a shell
+  --                  Run the following arguments as a command as they are
   --buffer-size, -b   Number of log lines to keep in memory (default: 300)
+  --buffer-bytes      Maximum total size of the log lines kept in memory, in bytes
+  --buffer-max-age    Maximum age of the log lines kept in memory, in milliseconds
+  --cols              Terminal width of the commands in columns (default: size of
+                      the local terminal, or 80)
+  --rows              Terminal height of the commands in rows (default: size of
+                      the local terminal, or 30)
   --port              Port for HTTP server (default: 8080)
+  --host              Interface for HTTP server to listen on (default: 127.0.0.1)
+  --token             Require this bearer token on HTTP requests
+                      (default: MCP_PROXY_TOKEN environment variable)
+  --allowed-origin    Allow browser requests from this origin in addition to
+                      localhost. Can be repeated
+  --transport, -t     MCP transport: http (Streamable HTTP on /mcp and SSE on /sse)
+                      or stdio (default: http)
+  --log-dir           Also write logs as JSON Lines files to this directory
+  --log-max-size      Rotate log files larger than this many bytes (default: 10485760)
+  --log-rotate-interval
+                      Rotate log files older than this many milliseconds (default: 86400000)
+  --log-max-files     Number of log files to keep per command (default: 10)
+  --log-max-age       Delete log files older than this many milliseconds (default: keep)
+  --audit-file        Also append the audit log of MCP tool calls to this file
+  --read-only         Disable the tools that send input to or start, stop, restart
+                      or resize the commands
+  --allow-input       Only let clients send this key (as named for sendKeyPress) or
+                      text. closeStdin needs ctrl+d to be allowed. Can be repeated
+  --enable-tool       Register this tool even in read-only mode. Can be repeated
+  --disable-tool      Do not register this tool. Can be repeated
   --help, -h          Show this help message
 
+Command options (apply to the preceding --command, or to all commands when
+given before the first --command):
+  --shell             Run the command through /bin/sh -c, for pipes, && and
+                      variable expansion
+  --mode              How to run the command: pty (pseudo-terminal, for interactive
+                      commands) or pipe (separate stdout and stderr) (default: pty)
+  --cwd               Working directory of the command (default: current directory)
+  --env               Set an environment variable as KEY=VALUE. Can be repeated
+  --env-file          Load environment variables from a dotenv file. Can be repeated
+  --clean-env         Start the command with only PATH, HOME, USER, SHELL, LANG and
+                      TMPDIR of the proxy environment instead of all of it
+  --restart           Restart policy: never, on-failure or always (default: never)
+  --max-restarts      Restarts allowed within the window before the command is
+                      considered crash-looping (default: 5)
+  --restart-window    Crash-loop detection window in milliseconds (default: 60000)
+  --restart-delay     Delay before the first restart in milliseconds, doubled on
+                      each further restart (default: 1000)
+  --max-restart-delay Maximum restart delay in milliseconds (default: 30000)
+
 Example:
   mcp-command-proxy -p "ExpoServer" -c "expo start" -b 500 --port 8080
+  mcp-command-proxy -p "Dev" -c "expo=expo start" -c "api=npm run api" --restart on-failure -c "tsc=tsc --watch"
+  mcp-command-proxy -c "npm run build && npm start" --shell
+  mcp-command-proxy --env-file .env --env PORT=3000 -c "api=npm run api" --cwd ./api
+  mcp-command-proxy --allow-input r --allow-input j -c "expo start"
+  mcp-command-proxy --port 8383 -- npx expo start --clear
   `);
 }
 
 // Main function
 export async function main(): Promise<void> {
   try {
-    const { prefix, command, bufferSize, port } = parseArgs();
+    const {
+      prefix,
+      commands,
+      bufferSize,
+      bufferBytes,
+      bufferMaxAge,
+      cols,
+      rows,
+      port,
+      host,
+      token,
+      allowedOrigins,
+      transport,
+      logFile,
+      auditFile,
+      policy,
+      configFile
+    } = parseArgs();
     
-    console.log(`Starting MCP Command Proxy with:
+    // In stdio mode stdout carries the MCP protocol
+    const log = transport === 'stdio' ? console.error : console.log;
+    
+    log(`Starting MCP Command Proxy with:${configFile ? `\n  - Config File: ${configFile}` : ''}
   - Prefix: ${prefix}
-  - Command: ${command}
+${commands.map(({ name, command }) => `  - Command (${name}): ${Array.isArray(command) ? command.map(quoteShellWord).join(' ') : command}`).join('\n')}
   - Buffer Size: ${bufferSize}
-  - Port: ${port}
+  - Transport: ${transport}${transport === 'http' ? `\n  - Address: ${host}:${port}${token ? ' (token required)' : ''}` : ''}${logFile ? `\n  - Log Directory: ${logFile.directory}` : ''}${auditFile ? `\n  - Audit File: ${auditFile}` : ''}${policy?.readOnly ? '\n  - Read Only: yes' : ''}${policy?.allowedInput ? `\n  - Allowed Input: ${policy.allowedInput.join(', ') || '(none)'}` : ''}${policy?.disabledTools?.length ? `\n  - Disabled Tools: ${policy.disabledTools.join(', ')}` : ''}
 `);
 
     const server = await createServer({
       prefix,
-      command,
+      commands,
       bufferSize,
-      port
+      bufferBytes,
+      bufferMaxAge,
+      cols,
+      rows,
+      port,
+      host,
+      token,
+      allowedOrigins,
+      transport,
+      logFile,
+      auditFile,
+      policy
     });
 
     // Handle exit signals
-    const exitHandler = (): void => {
-      console.log('\nShutting down MCP Command Proxy...');
-      server.stop();
+    let stopping = false;
+    const exitHandler = async (): Promise<void> => {
+      // A second signal exits right away instead of waiting for the commands
+      if (stopping) {
+        process.exit(1);
+      }
+      stopping = true;
+      log('\nShutting down MCP Command Proxy...');
+      await server.stop();
       process.exit(0);
     };
 
     process.on('SIGINT', exitHandler);
     process.on('SIGTERM', exitHandler);
     
-    console.log(`
+    if (transport === 'stdio') {
+      log('\nMCP Command Proxy is running on stdio!\n');
+    } else {
+      const baseUrl = `http://${host.includes(':') ? `[${host}]` : host}:${port}`;
+      log(`
 MCP Command Proxy is running!
-- SSE endpoint: http://localhost:${port}/sse
-- Messages endpoint: http://localhost:${port}/messages
+- Streamable HTTP endpoint: ${baseUrl}/mcp
+- SSE endpoint: ${baseUrl}/sse
+- Messages endpoint: ${baseUrl}/messages
 
 Connect your MCP client to these endpoints.
 `);
+    }
   } catch (error) {
     console.error('Error starting MCP Command Proxy:', error);
     process.exit(1);
   }
-}
-
-// Only run main if this is the entry point
-main().catch(error => {
-  console.error('Unhandled error:', error);
-  process.exit(1);
-}); 
\ No newline at end of file
+} 
\ No newline at end of file
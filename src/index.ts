@@ -7,175 +7,1020 @@
  */
 
 import express from 'express';
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, ResourceTemplate, ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
-import { z } from 'zod';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  CallToolResult,
+  ErrorCode,
+  isInitializeRequest,
+  McpError,
+  ServerNotification,
+  ServerRequest,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+import { randomUUID } from 'crypto';
+import { Server } from 'http';
+import { z, ZodRawShape } from 'zod';
 import { CommandRunner, ProcessStatus, LogEntry } from './utils/command-runner.js';
+import { ProcessManager, CommandDefinition, DEFAULT_PROCESS_NAME } from './utils/process-manager.js';
+import { compilePattern, searchLogs, toTimestamp } from './utils/log-search.js';
+import { waitForLog } from './utils/wait-for-log.js';
+import { LogFileOptions, RotatingLogWriter, readArchivedLogs } from './utils/log-file.js';
+import { DEFAULT_PROBLEM_MATCHERS, Problem, ProblemMatcher, ProblemTracker } from './utils/problem-matcher.js';
+import { encodeKey } from './utils/keys.js';
+import { formatLogs, LOG_OUTPUTS, LogOutput, presentLog } from './utils/log-format.js';
+import { AuditLog } from './utils/audit-log.js';
+import { ToolPolicy, ToolPolicyOptions } from './utils/policy.js';
+import { bearerAuth, isLoopbackHost, originCheck } from './utils/http-auth.js';
+import { ResourceNotifier, ResourceSubscriber } from './utils/resource-notifier.js';
 
 // session id to transport map
 const activeTransports = new Map<string, SSEServerTransport>();
 
+// session id to Streamable HTTP transport map
+const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+
+/**
+ * Build an error result for an MCP tool call
+ */
+function errorResult(message: string): { content: Array<{ type: 'text'; text: string }>; isError: true } {
+  return {
+    content: [
+      {
+        type: 'text',
+        text: message
+      }
+    ],
+    isError: true
+  };
+}
+
+/**
+ * Tool callback as seen by the policy and audit log wrappers
+ */
+type ToolHandler = (
+  args: Record<string, unknown>,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+) => CallToolResult | Promise<CallToolResult>;
+
+/**
+ * Log lines shown by the errors resource in addition to stderr
+ */
+const ERROR_LINE = /\b(?:error|exception|fatal|failed)\b/i;
+
+/**
+ * Resources that can be read and subscribed to, as URI templates
+ */
+const RESOURCES = [
+  'logs://recent',
+  'logs://{process}/tail/{n}',
+  'logs://{process}/errors',
+  'server://status',
+  'status://{process}',
+  'server://info'
+];
+
+/**
+ * Build a resource result with JSON content
+ */
+function jsonResource(uri: URL | string, data: unknown): { contents: Array<{ uri: string; mimeType: string; text: string }> } {
+  return {
+    contents: [{
+      uri: uri.toString(),
+      mimeType: 'application/json',
+      text: JSON.stringify(data)
+    }]
+  };
+}
+
 /**
  * Create an MCP server for proxying CLI commands
  */
 export async function createServer(options: {
   prefix: string;
-  command: string;
+  command?: string | string[];
+  commands?: CommandDefinition[];
+  /** Working directory of commands that do not set their own */
+  cwd?: string;
+  /** Environment variables added for all commands, overridden by those of a command */
+  env?: NodeJS.ProcessEnv;
+  /** Start all commands from a minimal environment */
+  cleanEnv?: boolean;
   bufferSize?: number;
-  port: number;
-}): Promise<{ stop: () => void }> {
-  const { prefix, command, bufferSize = 300, port } = options;
-  
-  // Create Express app
-  const app = express();
+  bufferBytes?: number;
+  bufferMaxAge?: number;
+  cols?: number;
+  rows?: number;
+  port?: number;
+  host?: string;
+  token?: string;
+  allowedOrigins?: string[];
+  transport?: 'http' | 'stdio';
+  logFile?: LogFileOptions;
+  /** Matchers that detect problems in the output of the commands (default: DEFAULT_PROBLEM_MATCHERS) */
+  problemMatchers?: ProblemMatcher[];
+  /** Also append the audit log of tool calls to this file as JSON Lines */
+  auditFile?: string;
+  /** Restrict which tools are registered and what input they may send */
+  policy?: ToolPolicyOptions;
+}): Promise<{ stop: () => Promise<void> }> {
+  const {
+    prefix,
+    bufferSize = 300,
+    bufferBytes,
+    bufferMaxAge,
+    port = 8080,
+    host = '127.0.0.1',
+    token,
+    allowedOrigins = [],
+    transport = 'http',
+    logFile,
+    problemMatchers = DEFAULT_PROBLEM_MATCHERS,
+    auditFile,
+    policy: policyOptions = {},
+  } = options;
+  const commands: CommandDefinition[] = [
+    ...(options.command ? [{ name: DEFAULT_PROCESS_NAME, command: options.command }] : []),
+    ...(options.commands || [])
+  ];
+
+  if (commands.length === 0) {
+    throw new Error('At least one command is required');
+  }
   
-  // Parse JSON bodies
-  app.use(express.json());
+  // In stdio mode stdout carries the MCP protocol, so all other output goes to stderr
+  const log = transport === 'stdio' ? console.error : console.log;
+  const output = transport === 'stdio' ? process.stderr : process.stdout;
   
-  // Create MCP server
-  const server = new McpServer({
-    name: `${prefix} MCP Server`,
-    version: '1.0.0'
-  });
+  // Match the size of the local terminal the output is shown in, unless a size was given
+  const followTerminal = output.isTTY && options.cols === undefined && options.rows === undefined;
+  const cols = followTerminal ? output.columns : options.cols;
+  const rows = followTerminal ? output.rows : options.rows;
   
-  // Create command runner
-  const commandRunner = new CommandRunner({
-    command,
-    logBufferSize: bufferSize,
-  });
+  // Create a command runner for each named command. Commands with a size of their
+  // own keep it, the others follow the local terminal until a client resizes them.
+  const processManager = new ProcessManager();
+  const followingTerminal = new Set<CommandRunner>();
+  for (const { name, ...runnerOptions } of commands) {
+    const commandRunner = processManager.add(name, {
+      logBufferSize: bufferSize,
+      logBufferBytes: bufferBytes,
+      logBufferMaxAge: bufferMaxAge,
+      cols,
+      rows,
+      cwd: options.cwd,
+      cleanEnv: options.cleanEnv,
+      ...runnerOptions,
+      env: options.env || runnerOptions.env ? { ...options.env, ...runnerOptions.env } : undefined,
+    });
+    if (followTerminal && runnerOptions.cols === undefined && runnerOptions.rows === undefined) {
+      followingTerminal.add(commandRunner);
+    }
+  }
+
+  // Only tag console output with the process name when there is more than one
+  const label = (name: string): string =>
+    processManager.getSize() > 1 ? `${prefix}:${name}` : prefix;
   
   // Setup command runner event handlers
-  commandRunner.on('log', (entry: LogEntry) => {
-    // Log to console for debugging
-    if (entry.type === 'stdout') {
-      process.stdout.write(entry.content);
-    } else if (entry.type === 'stderr') {
-      process.stderr.write(entry.content);
-    } else {
-      console.log(`[${prefix}] ${entry.content}`);
+  for (const [name, commandRunner] of processManager.entries()) {
+    // Pass raw output through so the terminal looks as if the command ran directly
+    commandRunner.on('data', (data: string) => {
+      output.write(data);
+    });
+    
+    commandRunner.on('log', (entry: LogEntry) => {
+      // Log to console for debugging
+      if (entry.type === 'system') {
+        log(`[${label(name)}] ${entry.content}`);
+      }
+    });
+    
+    commandRunner.on('exit', (code: number) => {
+      log(`[${label(name)}] Command exited with code ${code}`);
+    });
+    
+    commandRunner.on('error', (error: Error) => {
+      console.error(`[${label(name)}] Command error:`, error);
+    });
+  }
+  
+  // Propagate size changes of the local terminal (SIGWINCH) to the commands
+  const onResize = (): void => {
+    for (const commandRunner of followingTerminal) {
+      commandRunner.resize(output.columns, output.rows);
     }
-  });
+  };
+  if (followTerminal) {
+    output.on('resize', onResize);
+  }
   
-  commandRunner.on('exit', (code: number) => {
-    console.log(`[${prefix}] Command exited with code ${code}`);
-  });
+  // Persist logs to rotating files if enabled
+  const logWriters: RotatingLogWriter[] = [];
+  if (logFile) {
+    for (const [name, commandRunner] of processManager.entries()) {
+      const writer = new RotatingLogWriter(name, logFile);
+      writer.on('error', (error: Error) => {
+        console.error(`[${label(name)}] Log file error:`, error);
+      });
+      commandRunner.on('log', (entry: LogEntry) => writer.write(entry));
+      logWriters.push(writer);
+    }
+  }
+  
+  // Track problems such as compiler errors found in the output, starting over on every run
+  const problemTrackers = new Map<string, ProblemTracker>();
+  for (const [name, commandRunner] of processManager.entries()) {
+    const tracker = new ProblemTracker(problemMatchers);
+    commandRunner.on('log', (entry: LogEntry) => {
+      if (entry.type !== 'system') {
+        tracker.add(entry.plain, entry.timestamp);
+      }
+    });
+    commandRunner.on('statusChange', (status: ProcessStatus) => {
+      if (status === ProcessStatus.RUNNING) {
+        tracker.clear();
+      }
+    });
+    problemTrackers.set(name, tracker);
+  }
+  
+  // Tell subscribed clients when logs or process states change
+  const notifier = new ResourceNotifier();
+  for (const [name, commandRunner] of processManager.entries()) {
+    commandRunner.on('log', () => {
+      notifier.notify('logs://recent');
+      notifier.notifyWhere((uri) => uri.startsWith(`logs://${name}/`));
+    });
+    commandRunner.on('statusChange', () => {
+      notifier.notify('server://status');
+      notifier.notify(`status://${name}`);
+    });
+  }
   
-  commandRunner.on('error', (error: Error) => {
-    console.error(`[${prefix}] Command error:`, error);
+  // Check that a URI names an existing resource, filling in templates with the process names
+  const isResourceUri = (uri: string): boolean => {
+    const names = processManager.getNames();
+    return uri === 'logs://recent' ||
+      uri === 'server://status' ||
+      uri === 'server://info' ||
+      names.some((name) => uri === `status://${name}` ||
+        uri === `logs://${name}/errors` ||
+        (uri.startsWith(`logs://${name}/tail/`) && /^[1-9]\d*$/.test(uri.slice(`logs://${name}/tail/`.length))));
+  };
+  
+  // Resolve the runner named by a resource URI
+  const resolveResource = (variables: Variables): [string, CommandRunner] => {
+    try {
+      const name = processManager.resolveName(String(variables.process));
+      return [name, processManager.get(name) as CommandRunner];
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, (error as Error).message);
+    }
+  };
+  
+  // List the resources of a template for every process
+  const listResources = (toUri: (name: string) => string, describe: string): (() => { resources: Array<{ uri: string; name: string }> }) =>
+    (): { resources: Array<{ uri: string; name: string }> } => ({
+      resources: processManager.getNames().map((name) => ({ uri: toUri(name), name: `${describe} of ${name}` }))
+    });
+  const completeProcess = { process: (value: string): string[] => processManager.getNames().filter((name) => name.startsWith(value)) };
+  
+  // Record tool calls separately from the output of the commands
+  const auditLog = new AuditLog({ file: auditFile });
+  auditLog.on('error', (error: Error) => {
+    console.error(`[${prefix}] Audit log error:`, error);
   });
   
-  // Add MCP tools
+  // Decide which tools clients get, and what input they may send
+  const policy = new ToolPolicy(policyOptions);
+  const knownTools = new Set<string>();
   
-  // Add a resource for recent logs
-  server.resource(
-    'logs',
-    'logs://recent',
-    async () => {
-      const logs = commandRunner.getLogs()
-        .slice(-100); // Default to 100 most recent logs
-      
-      return {
-        contents: [{
-          uri: 'logs://recent',
-          text: JSON.stringify(logs, null, 2)
-        }]
-      };
+  // Resolve a runner for a tool call, turning lookup failures into error results
+  const withRunner = async <T>(
+    name: string | undefined,
+    handler: (runner: CommandRunner) => Promise<T>
+  ): Promise<T | ReturnType<typeof errorResult>> => {
+    let runner: CommandRunner;
+    try {
+      runner = processManager.resolve(name);
+    } catch (error) {
+      return errorResult((error as Error).message);
     }
-  );
-  
-  // Add tool to get recent logs
-  server.tool(
-    'getRecentLogs',
-    {
-      limit: z.number().optional().default(100),
-      types: z.array(z.enum(['stdout', 'stderr', 'system'])).optional().default(['stdout', 'stderr', 'system'])
-    },
-    async ({ limit, types }) => {
-      const logs = commandRunner.getLogs()
-        .filter((log: LogEntry) => types.includes(log.type))
-        .slice(-limit);
+    return handler(runner);
+  };
+  
+  // Create an MCP server with all tools and resources. Each session needs its own
+  // server instance, since a server can only be connected to one transport.
+  const createMcpServer = (): McpServer => {
+    // Create MCP server
+    const server = new McpServer({
+      name: `${prefix} MCP Server`,
+      version: '1.0.0'
+    });
+    
+    // Add MCP tools
+  
+    // Register a tool unless the policy disables it, checking the input it sends and
+    // recording its calls in the audit log. The names of the registered tools are
+    // kept for the server://info resource.
+    const toolNames: string[] = [];
+    const registerTool = <Args extends ZodRawShape>(
+      name: string,
+      schema: Args,
+      callback: ToolCallback<Args>,
+      { audit = true }: { audit?: boolean } = {}
+    ): void => {
+      knownTools.add(name);
+      if (!policy.isEnabled(name)) {
+        return;
+      }
+      toolNames.push(name);
+      // The SDK validates the arguments against the schema before the wrappers see them
+      const handler = policy.wrap(name, callback as ToolHandler);
+      server.tool(name, schema, (audit ? auditLog.wrap(name, handler) : handler) as ToolCallback<Args>);
+    };
+    
+    // Accept subscriptions to the resources, and drop them when the session closes
+    const subscriber: ResourceSubscriber = (uri) => server.server.sendResourceUpdated({ uri });
+    server.server.registerCapabilities({ resources: { subscribe: true } });
+    server.server.setRequestHandler(SubscribeRequestSchema, async ({ params }) => {
+      if (!isResourceUri(params.uri)) {
+        throw new McpError(ErrorCode.InvalidParams, `Cannot subscribe to unknown resource ${params.uri}`);
+      }
+      notifier.subscribe(params.uri, subscriber);
+      return {};
+    });
+    server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params }) => {
+      notifier.unsubscribe(params.uri, subscriber);
+      return {};
+    });
+    server.server.onclose = (): void => notifier.unsubscribeAll(subscriber);
+  
+    // Add a resource for recent logs of all processes
+    server.resource(
+      'logs',
+      'logs://recent',
+      async () => {
+        const logs = processManager.entries()
+          .flatMap(([name, runner]) => runner.getLogs().map((log) => ({ process: name, ...presentLog(log, 'plain') })))
+          .sort((a, b) => a.timestamp - b.timestamp)
+          .slice(-100); // Default to 100 most recent logs
       
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify(logs)
+        return {
+          contents: [{
+            uri: 'logs://recent',
+            text: JSON.stringify(logs, null, 2)
+          }]
+        };
+      }
+    );
+  
+    // Add a resource for the most recent logs of one process
+    server.resource(
+      'process-logs',
+      new ResourceTemplate('logs://{process}/tail/{n}', {
+        list: listResources((name) => `logs://${name}/tail/100`, 'Recent logs'),
+        complete: completeProcess
+      }),
+      async (uri, variables) => {
+        const [, runner] = resolveResource(variables);
+        const n = Number(variables.n);
+        if (!Number.isInteger(n) || n < 1) {
+          throw new McpError(ErrorCode.InvalidParams, `Invalid number of log entries "${variables.n}"`);
+        }
+        return jsonResource(uri, runner.getLogs().slice(-n).map((log) => presentLog(log, 'plain')));
+      }
+    );
+  
+    // Add a resource for the errors of one process: detected problems, stderr and output lines mentioning errors
+    server.resource(
+      'process-errors',
+      new ResourceTemplate('logs://{process}/errors', {
+        list: listResources((name) => `logs://${name}/errors`, 'Errors'),
+        complete: completeProcess
+      }),
+      async (uri, variables) => {
+        const [name, runner] = resolveResource(variables);
+        const logs = runner.getLogs()
+          .filter((log) => log.type === 'stderr' || (log.type === 'stdout' && ERROR_LINE.test(log.plain)))
+          .slice(-100)
+          .map((log) => presentLog(log, 'plain'));
+        return jsonResource(uri, { problems: (problemTrackers.get(name) as ProblemTracker).getProblems(), logs });
+      }
+    );
+  
+    // Add a resource for the status of all processes
+    server.resource(
+      'status',
+      'server://status',
+      async () => {
+        const processes = processManager.entries().map(([name, runner]) => ({ name, ...runner.getInfo() }));
+        return {
+          contents: [{
+            uri: 'server://status',
+            text: JSON.stringify(processes, null, 2)
+          }]
+        };
+      }
+    );
+  
+    // Add a resource for the status of one process, as returned by getProcessStatus
+    server.resource(
+      'process-status',
+      new ResourceTemplate('status://{process}', {
+        list: listResources((name) => `status://${name}`, 'Status'),
+        complete: completeProcess
+      }),
+      async (uri, variables) => {
+        const [, runner] = resolveResource(variables);
+        return jsonResource(uri, { ...runner.getInfo(), resources: await runner.getResourceUsage() });
+      }
+    );
+  
+    // Add a resource describing the server, its commands and configuration
+    server.resource(
+      'server-info',
+      'server://info',
+      async (uri) => jsonResource(uri, {
+        name: `${prefix} MCP Server`,
+        version: '1.0.0',
+        transport,
+        http: transport === 'http' ? { host, port, tokenRequired: !!token, allowedOrigins } : undefined,
+        buffer: { size: bufferSize, maxBytes: bufferBytes, maxAge: bufferMaxAge },
+        logDirectory: logFile?.directory,
+        commands: processManager.entries().map(([name, runner]) => {
+          const { command, mode, cwd, status } = runner.getInfo();
+          return { name, command, mode, cwd, status };
+        }),
+        tools: toolNames,
+        policy: policyOptions,
+        resources: RESOURCES
+      })
+    );
+  
+    // Add tool to get recent logs
+    registerTool(
+      'getRecentLogs',
+      {
+        process: z.string().optional(),
+        limit: z.number().optional().default(100),
+        types: z.array(z.enum(['stdout', 'stderr', 'system'])).optional().default(['stdout', 'stderr', 'system']),
+        format: z.enum(['raw', 'plain']).optional().default('plain'),
+        output: z.enum(LOG_OUTPUTS as [LogOutput, ...LogOutput[]]).optional().default('json'),
+        maxChars: z.number().int().min(100).optional(),
+        dedupe: z.boolean().optional().default(false)
+      },
+      async ({ process: name, limit, types, ...options }) => withRunner(name, async (commandRunner) => {
+        const logs = commandRunner.getLogs()
+          .filter((log: LogEntry) => types.includes(log.type))
+          .slice(-limit);
+      
+        return {
+          content: [
+            {
+              type: 'text',
+              text: formatLogs(logs, options)
+            }
+          ]
+        };
+      })
+    );
+  
+    // Add tool to read logs incrementally
+    registerTool(
+      'getLogsSince',
+      {
+        process: z.string().optional(),
+        cursor: z.number().int().min(0).optional().default(0),
+        limit: z.number().int().positive().optional().default(100),
+        types: z.array(z.enum(['stdout', 'stderr', 'system'])).optional().default(['stdout', 'stderr', 'system']),
+        format: z.enum(['raw', 'plain']).optional().default('plain')
+      },
+      async ({ process: name, cursor, limit, types, format }) => withRunner(name, async (commandRunner) => {
+        const page = commandRunner.getLogsSince(cursor, limit);
+        const result = {
+          ...page,
+          entries: page.entries
+            .filter((log: LogEntry) => types.includes(log.type))
+            .map((log) => presentLog(log, format))
+        };
+      
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result)
+            }
+          ]
+        };
+      })
+    );
+  
+    // Add tool to search logs
+    registerTool(
+      'searchLogs',
+      {
+        process: z.string().optional(),
+        pattern: z.string(),
+        regex: z.boolean().optional().default(false),
+        caseSensitive: z.boolean().optional().default(false),
+        since: z.union([z.number(), z.string()]).optional(),
+        until: z.union([z.number(), z.string()]).optional(),
+        context: z.number().int().min(0).optional().default(0),
+        types: z.array(z.enum(['stdout', 'stderr', 'system'])).optional(),
+        limit: z.number().int().positive().optional().default(50)
+      },
+      async ({ process: name, since, until, ...options }) => withRunner(name, async (commandRunner) => {
+        try {
+          const result = searchLogs(commandRunner.getLogs(), {
+            ...options,
+            since: since !== undefined ? toTimestamp(since) : undefined,
+            until: until !== undefined ? toTimestamp(until) : undefined
+          });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result)
+              }
+            ]
+          };
+        } catch (error) {
+          return errorResult((error as Error).message);
+        }
+      })
+    );
+  
+    // Add tool to wait until a log line matching a pattern appears
+    registerTool(
+      'waitForLog',
+      {
+        process: z.string().optional(),
+        pattern: z.string(),
+        caseSensitive: z.boolean().optional().default(false),
+        timeout: z.number().int().positive().max(600000).optional().default(30000),
+        cursor: z.number().int().min(0).optional(),
+        context: z.number().int().min(0).optional().default(5),
+        types: z.array(z.enum(['stdout', 'stderr', 'system'])).optional()
+      },
+      async ({ process: name, pattern, caseSensitive, ...options }) => withRunner(name, async (commandRunner) => {
+        let regex: RegExp;
+        try {
+          regex = compilePattern(pattern, true, caseSensitive);
+        } catch (error) {
+          return errorResult((error as Error).message);
+        }
+      
+        const result = await waitForLog(commandRunner, { pattern: regex, ...options });
+        if (result.outcome === 'timeout') {
+          return errorResult(`Timed out after ${options.timeout}ms waiting for /${pattern}/ (cursor: ${result.cursor})`);
+        }
+        if (result.outcome === 'exit') {
+          return errorResult(`Command exited while waiting for /${pattern}/ (cursor: ${result.cursor})`);
+        }
+      
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result)
+            }
+          ]
+        };
+      })
+    );
+  
+    // Add tool to get the problems found in the output
+    registerTool(
+      'getProblems',
+      {
+        process: z.string().optional(),
+        severity: z.enum(['error', 'warning']).optional()
+      },
+      async ({ process: name, severity }) => {
+        let names: string[];
+        try {
+          // Report all processes unless one is given
+          names = name === undefined ? processManager.getNames() : [processManager.resolveName(name)];
+        } catch (error) {
+          return errorResult((error as Error).message);
+        }
+      
+        const problems: Array<Problem & { process: string }> = names
+          .flatMap((processName) => (problemTrackers.get(processName) as ProblemTracker)
+            .getProblems()
+            .map((problem) => ({ process: processName, ...problem })))
+          .filter((problem) => !severity || problem.severity === severity);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                errorCount: problems.filter((problem) => problem.severity === 'error').length,
+                warningCount: problems.filter((problem) => problem.severity === 'warning').length,
+                problems
+              })
+            }
+          ]
+        };
+      }
+    );
+  
+    // Add tool to query logs persisted to disk
+    if (logFile) {
+      registerTool(
+        'queryArchivedLogs',
+        {
+          process: z.string().optional(),
+          since: z.union([z.number(), z.string()]).optional(),
+          until: z.union([z.number(), z.string()]).optional(),
+          pattern: z.string().optional(),
+          regex: z.boolean().optional().default(false),
+          caseSensitive: z.boolean().optional().default(false),
+          types: z.array(z.enum(['stdout', 'stderr', 'system'])).optional(),
+          limit: z.number().int().positive().max(10000).optional().default(200),
+          format: z.enum(['raw', 'plain']).optional().default('plain')
+        },
+        async ({ process: name, since, until, pattern, regex, caseSensitive, types, limit, format }) => {
+          try {
+            const result = await readArchivedLogs(logFile.directory, processManager.resolveName(name), {
+              since: since !== undefined ? toTimestamp(since) : undefined,
+              until: until !== undefined ? toTimestamp(until) : undefined,
+              pattern: pattern !== undefined ? compilePattern(pattern, regex, caseSensitive) : undefined,
+              types,
+              limit
+            });
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({
+                    entries: result.entries.map((log) => presentLog(log, format)),
+                    totalMatches: result.totalMatches
+                  })
+                }
+              ]
+            };
+          } catch (error) {
+            return errorResult((error as Error).message);
           }
-        ]
-      };
+        }
+      );
     }
-  );
-  
-  // Add tool to send key press
-  server.tool(
-    'sendKeyPress',
-    {
-      key: z.string()
-    },
-    async ({ key }) => {
-      if (commandRunner.getStatus() !== ProcessStatus.RUNNING) {
+  
+    // Add tool to read the terminal screen as currently displayed
+    registerTool(
+      'getScreen',
+      {
+        process: z.string().optional(),
+        scrollback: z.number().int().min(0).optional().default(0)
+      },
+      async ({ process: name, scrollback }) => withRunner(name, async (commandRunner) => {
+        const screen = await commandRunner.getScreen(scrollback);
+        
         return {
           content: [
             {
               type: 'text',
-              text: 'Command is not running'
+              text: JSON.stringify(screen)
             }
-          ],
-          isError: true
+          ]
         };
-      }
+      })
+    );
+  
+    // Add tool to close stdin
+    registerTool(
+      'closeStdin',
+      {
+        process: z.string().optional()
+      },
+      async ({ process: name }) => withRunner(name, async (commandRunner) => {
+        try {
+          commandRunner.closeStdin();
+        } catch (error) {
+          return errorResult((error as Error).message);
+        }
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'Stdin closed successfully'
+            }
+          ]
+        };
+      })
+    );
+  
+    // Add tool to resize the terminal
+    registerTool(
+      'resizeTerminal',
+      {
+        process: z.string().optional(),
+        cols: z.number().int().min(1).max(1000),
+        rows: z.number().int().min(1).max(1000)
+      },
+      async ({ process: name, cols, rows }) => withRunner(name, async (commandRunner) => {
+        // Keep the size the client asked for when the local terminal is resized
+        followingTerminal.delete(commandRunner);
+        commandRunner.resize(cols, rows);
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(commandRunner.getTerminalSize())
+            }
+          ]
+        };
+      })
+    );
+  
+    // Add tool to send key press
+    registerTool(
+      'sendKeyPress',
+      {
+        process: z.string().optional(),
+        key: z.string()
+      },
+      async ({ process: name, key }) => withRunner(name, async (commandRunner) => {
+        // Convert key names and modifier combinations to the bytes a terminal sends
+        try {
+          commandRunner.write(encodeKey(key));
+        } catch (error) {
+          return errorResult((error as Error).message);
+        }
       
-      // Convert special key names to actual characters if needed
-      const keyMap: Record<string, string> = {
-        'enter': '\r',
-        'return': '\r',
-        'space': ' ',
-        'tab': '\t',
-        'escape': '\x1b',
-        'backspace': '\x7f'
-      };
-
-      const keyToSend = keyMap[key.toLowerCase()] || key;
-      commandRunner.write(keyToSend);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'Key sent successfully'
+            }
+          ]
+        };
+      })
+    );
+  
+    // Add tool to send a sequence of key presses
+    registerTool(
+      'sendKeys',
+      {
+        process: z.string().optional(),
+        keys: z.array(z.string()).min(1),
+        delayMs: z.number().int().min(0).max(10000).optional().default(0)
+      },
+      async ({ process: name, keys, delayMs }) => withRunner(name, async (commandRunner) => {
+        // Validate all keys before sending any of them
+        let sequences: string[];
+        try {
+          sequences = keys.map(encodeKey);
+        } catch (error) {
+          return errorResult((error as Error).message);
+        }
       
-      return {
-        content: [
-          {
-            type: 'text',
-            text: 'Key sent successfully'
+        for (let i = 0; i < sequences.length; i++) {
+          if (i > 0 && delayMs > 0) {
+            await new Promise((resolve) => setTimeout(resolve, delayMs));
           }
-        ]
-      };
-    }
-  );
-  
-  // Add tool to get process status
-  server.tool(
-    'getProcessStatus',
-    {},
-    async () => {
-      const status = commandRunner.getStatus();
-      return {
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({ status })
+          try {
+            commandRunner.write(sequences[i]);
+          } catch (error) {
+            return errorResult(`${(error as Error).message} (sent ${i} of ${sequences.length} keys)`);
           }
-        ]
-      };
-    }
-  );
+        }
+      
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `${sequences.length} keys sent successfully`
+            }
+          ]
+        };
+      })
+    );
+  
+    // Add tool to type text
+    registerTool(
+      'sendText',
+      {
+        process: z.string().optional(),
+        text: z.string(),
+        submit: z.boolean().optional().default(false)
+      },
+      async ({ process: name, text, submit }) => withRunner(name, async (commandRunner) => {
+        try {
+          commandRunner.write(submit ? text + '\r' : text);
+        } catch (error) {
+          return errorResult((error as Error).message);
+        }
+      
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'Text sent successfully'
+            }
+          ]
+        };
+      })
+    );
+  
+    // Add tool to read the audit log of tool calls
+    registerTool(
+      'getAuditLog',
+      {
+        tool: z.string().optional(),
+        sessionId: z.string().optional(),
+        since: z.union([z.number(), z.string()]).optional(),
+        errorsOnly: z.boolean().optional().default(false),
+        limit: z.number().int().positive().max(1000).optional().default(50)
+      },
+      async ({ since, ...query }) => {
+        try {
+          const result = auditLog.query({ ...query, since: since !== undefined ? toTimestamp(since) : undefined });
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(result)
+              }
+            ]
+          };
+        } catch (error) {
+          return errorResult((error as Error).message);
+        }
+      },
+      // Reading the audit log is not recorded in it
+      { audit: false }
+    );
+  
+    // Add tool to get process status
+    registerTool(
+      'getProcessStatus',
+      {
+        process: z.string().optional()
+      },
+      async ({ process: name }) => withRunner(name, async (commandRunner) => {
+        const info = {
+          ...commandRunner.getInfo(),
+          resources: await commandRunner.getResourceUsage()
+        };
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(info)
+            }
+          ]
+        };
+      })
+    );
+  
+    // Add tool to list all managed processes
+    registerTool(
+      'listProcesses',
+      {},
+      async () => {
+        const processes = processManager.entries().map(([name, runner]) => ({
+          name,
+          command: runner.getCommandLine(),
+          status: runner.getStatus()
+        }));
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(processes)
+            }
+          ]
+        };
+      }
+    );
+  
+    // Signals accepted by the process control tools
+    const signalSchema = z.enum(['SIGTERM', 'SIGINT', 'SIGHUP', 'SIGQUIT', 'SIGKILL']).optional();
+  
+    // Add tool to start a stopped process
+    registerTool(
+      'startProcess',
+      {
+        process: z.string().optional()
+      },
+      async ({ process: name }) => withRunner(name, async (commandRunner) => {
+        if (commandRunner.getStatus() === ProcessStatus.RUNNING) {
+          return errorResult('Command is already running');
+        }
+      
+        await commandRunner.start();
+        const status = commandRunner.getStatus();
+        if (status !== ProcessStatus.RUNNING) {
+          return errorResult(`Command failed to start (status: ${status})`);
+        }
+      
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ status })
+            }
+          ]
+        };
+      })
+    );
+  
+    // Add tool to stop a running process
+    registerTool(
+      'stopProcess',
+      {
+        process: z.string().optional(),
+        signal: signalSchema,
+        timeout: z.number().int().positive().optional()
+      },
+      async ({ process: name, signal, timeout }) => withRunner(name, async (commandRunner) => {
+        // A command waiting for an automatic restart is stopped by cancelling the restart
+        if (commandRunner.getStatus() !== ProcessStatus.RUNNING && !commandRunner.isRestartPending()) {
+          return errorResult('Command is not running');
+        }
+      
+        await commandRunner.stop({ signal, timeout });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ status: commandRunner.getStatus() })
+            }
+          ]
+        };
+      })
+    );
+  
+    // Add tool to restart a process, whether or not it is running
+    registerTool(
+      'restartProcess',
+      {
+        process: z.string().optional(),
+        signal: signalSchema,
+        timeout: z.number().int().positive().optional()
+      },
+      async ({ process: name, signal, timeout }) => withRunner(name, async (commandRunner) => {
+        await commandRunner.restart({ signal, timeout });
+        const status = commandRunner.getStatus();
+        if (status !== ProcessStatus.RUNNING) {
+          return errorResult(`Command failed to restart (status: ${status})`);
+        }
+      
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({ status })
+            }
+          ]
+        };
+      })
+    );
+    
+    return server;
+  };
+  
+  // Build a server once up front, so that a policy naming unknown tools fails at startup
+  createMcpServer();
+  const unknownTools = policy.unknownTools(knownTools);
+  if (unknownTools.length > 0) {
+    throw new Error(`Unknown tools in policy: ${unknownTools.join(', ')}`);
+  }
+  
+  // Create Express app
+  const app = express();
+  
+  // Reject browser requests from foreign origins, then require the token if one is set
+  app.use(originCheck(allowedOrigins));
+  if (token) {
+    app.use(bearerAuth(token));
+  }
+  
+  // Parse JSON bodies
+  app.use(express.json());
   
   // Set up SSE endpoint
   app.get("/sse", async (req, res) => {
-    console.log(`[${prefix}] SSE endpoint connected`);
+    log(`[${prefix}] SSE endpoint connected`);
     const currentConnectionTransport = new SSEServerTransport("/messages", res); 
     activeTransports.set(currentConnectionTransport.sessionId, currentConnectionTransport);
-    await server.connect(currentConnectionTransport);
+    await createMcpServer().connect(currentConnectionTransport);
 
     // Handle client disconnect for this specific connection
     req.on('close', () => {
-      console.log(`[${prefix}] SSE endpoint disconnected for session: ${currentConnectionTransport.sessionId}`);
+      log(`[${prefix}] SSE endpoint disconnected for session: ${currentConnectionTransport.sessionId}`);
       // Remove the transport from the map when the connection closes
       if (activeTransports.has(currentConnectionTransport.sessionId)) {
         activeTransports.get(currentConnectionTransport.sessionId)?.close(); // Close only if it's still in the map
@@ -191,31 +1036,83 @@ export async function createServer(options: {
 
     if (transport) {
       await transport.handlePostMessage(req, res, req.body); // Pass req.body as well
-      console.log(`[${prefix}] Message received for session ${sessionId}:`, req.body);
+      log(`[${prefix}] Message received for session ${sessionId}:`, req.body);
     } else {
       res.status(400).send('No active SSE connection found for this session.');
       console.warn(`[${prefix}] No active SSE connection found for session ID: ${sessionId} for POST message.`);
     }
   });
     
-  // Setup raw mode for stdin
-  if (process.stdin.isTTY) {
+  // Set up Streamable HTTP endpoint
+  app.post('/mcp', async (req, res) => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    let currentTransport = sessionId ? streamableTransports.get(sessionId) : undefined;
+    
+    if (!currentTransport) {
+      if (sessionId || !isInitializeRequest(req.body)) {
+        res.status(400).json({
+          jsonrpc: '2.0',
+          error: { code: -32000, message: 'Bad Request: No valid session ID provided' },
+          id: null
+        });
+        return;
+      }
+      
+      // Start a new session
+      const newTransport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: (): string => randomUUID(),
+        onsessioninitialized: (newSessionId): void => {
+          log(`[${prefix}] Streamable HTTP session started: ${newSessionId}`);
+          streamableTransports.set(newSessionId, newTransport);
+        }
+      });
+      newTransport.onclose = (): void => {
+        if (newTransport.sessionId) {
+          log(`[${prefix}] Streamable HTTP session closed: ${newTransport.sessionId}`);
+          streamableTransports.delete(newTransport.sessionId);
+        }
+      };
+      await createMcpServer().connect(newTransport);
+      currentTransport = newTransport;
+    }
+    
+    await currentTransport.handleRequest(req, res, req.body);
+  });
+  
+  // Server-to-client notification stream and session termination for Streamable HTTP
+  const handleSessionRequest = async (req: express.Request, res: express.Response): Promise<void> => {
+    const sessionId = req.headers['mcp-session-id'] as string | undefined;
+    const currentTransport = sessionId ? streamableTransports.get(sessionId) : undefined;
+    if (!currentTransport) {
+      res.status(400).send('Invalid or missing session ID');
+      return;
+    }
+    await currentTransport.handleRequest(req, res);
+  };
+  app.get('/mcp', handleSessionRequest);
+  app.delete('/mcp', handleSessionRequest);
+  
+  // Setup raw mode for stdin, which carries the MCP protocol in stdio mode
+  if (transport === 'stdio') {
+    log(`[${prefix}] Using stdio transport, keypresses won't be captured`);
+  } else if (process.stdin.isTTY) {
     process.stdin.setRawMode(true);
     process.stdin.resume();
     process.stdin.setEncoding('utf8');
     
-    console.log(`[${prefix}] Terminal is in TTY mode, listening for keypresses`);
+    log(`[${prefix}] Terminal is in TTY mode, listening for keypresses`);
     
     process.stdin.on('data', (data: Buffer | string) => {
       // Convert buffer to string if needed
       const str = Buffer.isBuffer(data) ? data.toString() : data;
       
-      console.log(`[${prefix}] Received keypress:`, str.split('').map((c: string) => c.charCodeAt(0)));
+      log(`[${prefix}] Received keypress:`, str.split('').map((c: string) => c.charCodeAt(0)));
       
       // Handle special keys
       if (str === '\u0003') { // Ctrl+C
-        console.log(`[${prefix}] Received Ctrl+C, exiting...`);
-        process.exit();
+        // Shut down as on SIGINT from outside the raw mode terminal, so that logs are flushed
+        log(`[${prefix}] Received Ctrl+C, exiting...`);
+        process.kill(process.pid, 'SIGINT');
       }
       
       // Map some common keys
@@ -227,11 +1124,16 @@ export async function createServer(options: {
         '\r': '\r\n',         // Enter
       };
       
-      // Forward keypress to the child process
-      if (commandRunner.getStatus() === ProcessStatus.RUNNING) {
+      // Forward keypress to the primary child process
+      const commandRunner = processManager.getPrimary();
+      if (commandRunner && commandRunner.getStatus() === ProcessStatus.RUNNING) {
         const mapped = keyMap[str] || str;
-        console.log(`[${prefix}] Forwarding keypress to child process:`, mapped.split('').map((c: string) => c.charCodeAt(0)));
-        commandRunner.write(mapped);
+        log(`[${prefix}] Forwarding keypress to child process:`, mapped.split('').map((c: string) => c.charCodeAt(0)));
+        try {
+          commandRunner.write(mapped);
+        } catch (error) {
+          console.error(`[${prefix}] Failed to forward keypress:`, error);
+        }
       }
     });
     
@@ -242,33 +1144,72 @@ export async function createServer(options: {
       }
     });
   } else {
-    console.log(`[${prefix}] Terminal is not in TTY mode, keypresses won't be captured`);
+    log(`[${prefix}] Terminal is not in TTY mode, keypresses won't be captured`);
   }
   
-  // Start the command
-  commandRunner.start();
+  // Start the commands
+  processManager.startAll();
   
-  // Start the HTTP server
-  const server_instance = app.listen(port, () => {
-    console.log(`[${prefix}] MCP server listening on port ${port}`);
-    console.log(`[${prefix}] SSE endpoint: http://localhost:${port}/sse`);
-    console.log(`[${prefix}] Messages endpoint: http://localhost:${port}/messages`);
-    console.log(`[${prefix}] MCP server started with command: ${command}`);
-  });
+  // Start the HTTP server, or serve a single session over stdio
+  let server_instance: Server | null = null;
+  if (transport === 'stdio') {
+    await createMcpServer().connect(new StdioServerTransport());
+    for (const [name, commandRunner] of processManager.entries()) {
+      log(`[${prefix}] MCP server started on stdio with command: ${commandRunner.getCommandLine()} (${name})`);
+    }
+  } else {
+    if (!token && !isLoopbackHost(host)) {
+      log(`[${prefix}] Warning: listening on ${host} without a token, anyone on the network can control the command`);
+    }
+    const baseUrl = `http://${host.includes(':') ? `[${host}]` : host}:${port}`;
+    server_instance = app.listen(port, host, () => {
+      log(`[${prefix}] MCP server listening on ${host}:${port}${token ? ' (token required)' : ''}`);
+      log(`[${prefix}] Streamable HTTP endpoint: ${baseUrl}/mcp`);
+      log(`[${prefix}] SSE endpoint: ${baseUrl}/sse`);
+      log(`[${prefix}] Messages endpoint: ${baseUrl}/messages`);
+      for (const [name, commandRunner] of processManager.entries()) {
+        log(`[${prefix}] MCP server started with command: ${commandRunner.getCommandLine()} (${name})`);
+      }
+    });
+  }
   
-  // Return a stop function
+  // Return a stop function that resolves once the commands exited and their last logs are on disk
   return {
-    stop: (): void => {
-      commandRunner.stop();
-      server_instance.close();
-      console.log(`[${prefix}] MCP server stopped`);
+    stop: async (): Promise<void> => {
+      output.off('resize', onResize);
+      notifier.dispose();
+      server_instance?.close();
+      await processManager.stopAll();
+      await Promise.all(logWriters.map((writer) => writer.close()));
+      await auditLog.close();
+      log(`[${prefix}] MCP server stopped`);
     }
   };
 }
 
 // Re-export other utilities
-export { CommandRunner, ProcessStatus, type LogEntry } from './utils/command-runner.js';
-export { CircularBuffer } from './utils/buffer.js';
+export { CommandRunner, ProcessStatus, type LogEntry, type LogPage, type ProcessInfo, type StopOptions } from './utils/command-runner.js';
+export { ResourceSampler, type ResourceUsage } from './utils/proc-stats.js';
+export { LineAssembler } from './utils/line-assembler.js';
+export { stripAnsi } from './utils/ansi.js';
+export { waitForLog, type WaitForLogOptions, type WaitForLogResult } from './utils/wait-for-log.js';
+export { searchLogs, type LogSearchOptions, type LogSearchResult, type LogMatch } from './utils/log-search.js';
+export { RotatingLogWriter, readArchivedLogs, type LogFileOptions, type ArchiveQuery } from './utils/log-file.js';
+export { CircularBuffer, type CircularBufferOptions, type BufferStats } from './utils/buffer.js';
+export { ProcessManager, type CommandDefinition } from './utils/process-manager.js';
+export { RestartTracker, type RestartPolicy, type RestartMode } from './utils/restart-policy.js';
+export { type SpawnMode, type OutputStream } from './utils/process-handle.js';
+export { TerminalScreen, type ScreenSnapshot } from './utils/screen.js';
+export { encodeKey } from './utils/keys.js';
+export { loadConfigFile, validateConfig, configSchema, type ProxyConfig } from './utils/config.js';
+export { splitShellWords, parseCommandLine, quoteShellWord, type ParsedCommand } from './utils/shell-words.js';
+export { bearerAuth, originCheck } from './utils/http-auth.js';
+export { ProblemTracker, DEFAULT_PROBLEM_MATCHERS, type Problem, type ProblemMatcher, type ProblemSeverity } from './utils/problem-matcher.js';
+export { parseEnvFile, loadEnvFile } from './utils/env-file.js';
+export { formatLogs, presentLog, type LogOutput, type LogOutputOptions } from './utils/log-format.js';
+export { AuditLog, type AuditEntry, type AuditQuery, type AuditLogOptions } from './utils/audit-log.js';
+export { ToolPolicy, INPUT_TOOLS, CONTROL_TOOLS, type ToolPolicyOptions } from './utils/policy.js';
+export { ResourceNotifier, type ResourceSubscriber } from './utils/resource-notifier.js';
 
 // Re-export the CLI for direct execution
 export * from './cli.js'; 
\ No newline at end of file
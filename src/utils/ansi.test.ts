@@ -0,0 +1,23 @@
+import { stripAnsi } from './ansi';
+
+describe('stripAnsi', () => {
+  it('should remove colour codes', () => {
+    expect(stripAnsi('\x1b[1m\x1b[31mError:\x1b[39m\x1b[22m failed')).toBe('Error: failed');
+  });
+
+  it('should remove cursor movement and erase sequences', () => {
+    expect(stripAnsi('\x1b[2K\x1b[1GLoading\x1b[?25l')).toBe('Loading');
+  });
+
+  it('should remove OSC sequences such as hyperlinks and titles', () => {
+    expect(stripAnsi('\x1b]0;title\x07\x1b]8;;http://x\x1b\\link\x1b]8;;\x1b\\')).toBe('link');
+  });
+
+  it('should remove control characters but keep tabs', () => {
+    expect(stripAnsi('a\tb\x07c\x08')).toBe('a\tbc');
+  });
+
+  it('should leave plain text untouched', () => {
+    expect(stripAnsi('› Press r │ reload app')).toBe('› Press r │ reload app');
+  });
+});
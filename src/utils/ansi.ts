@@ -0,0 +1,20 @@
+/**
+ * Matches ANSI escape sequences: CSI sequences (colours, cursor movement, erasing),
+ * OSC sequences (window titles, hyperlinks) and other two-character escapes
+ */
+const ANSI_PATTERN =
+  // eslint-disable-next-line no-control-regex
+  /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[PX^_][^\x1b]*\x1b\\|\x1b[@-Z\\-_]|\x9b[0-?]*[ -/]*[@-~]/g;
+
+/**
+ * Matches control characters other than tab
+ */
+// eslint-disable-next-line no-control-regex
+const CONTROL_PATTERN = /[\x00-\x08\x0b-\x1f\x7f]/g;
+
+/**
+ * Remove ANSI escape sequences and control characters from a string
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '').replace(CONTROL_PATTERN, '');
+}
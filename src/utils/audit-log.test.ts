@@ -0,0 +1,79 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditLog } from './audit-log';
+
+const textResult = (text: string, isError?: true): { content: Array<{ type: 'text'; text: string }>; isError?: true } => ({
+  content: [{ type: 'text', text }],
+  ...(isError ? { isError } : {}),
+});
+
+describe('AuditLog', () => {
+  it('should record tool calls with their arguments, result and duration', async () => {
+    const auditLog = new AuditLog();
+    const sendText = auditLog.wrap('sendText', async (args: { text: string }) => textResult(`sent ${args.text}`));
+
+    const result = await sendText({ text: 'hello' }, { sessionId: 'session-1' });
+
+    expect(result).toEqual(textResult('sent hello'));
+    expect(auditLog.query().entries).toEqual([
+      {
+        seq: 1,
+        timestamp: expect.any(Number),
+        durationMs: expect.any(Number),
+        sessionId: 'session-1',
+        tool: 'sendText',
+        arguments: { text: 'hello' },
+        isError: false,
+        result: 'sent hello',
+      },
+    ]);
+  });
+
+  it('should record error results and thrown errors', async () => {
+    const auditLog = new AuditLog();
+    const failing = auditLog.wrap('startProcess', async () => textResult('Command is not running', true));
+    const throwing = auditLog.wrap('stopProcess', async (): Promise<ReturnType<typeof textResult>> => {
+      throw new Error('Unexpected');
+    });
+
+    await failing({}, {});
+    await expect(throwing({}, {})).rejects.toThrow('Unexpected');
+
+    expect(auditLog.query({ errorsOnly: true }).entries.map(({ tool, result }) => [tool, result])).toEqual([
+      ['startProcess', 'Command is not running'],
+      ['stopProcess', 'Unexpected'],
+    ]);
+  });
+
+  it('should filter by tool, session and time and keep the most recent entries', () => {
+    const auditLog = new AuditLog({ maxEntries: 3, maxResultChars: 5 });
+    const call = (tool: string, sessionId: string, timestamp: number): void => {
+      auditLog.record({ timestamp, durationMs: 1, sessionId, tool, arguments: {}, isError: false, result: 'done and done' });
+    };
+    call('getRecentLogs', 'a', 1000);
+    call('sendKeys', 'a', 2000);
+    call('getRecentLogs', 'b', 3000);
+    call('getRecentLogs', 'a', 4000);
+
+    expect(auditLog.query().entries.map(({ seq }) => seq)).toEqual([2, 3, 4]);
+    expect(auditLog.query({ tool: 'getRecentLogs' }).totalMatches).toBe(2);
+    expect(auditLog.query({ sessionId: 'a', since: 2500 }).entries.map(({ seq }) => seq)).toEqual([4]);
+    expect(auditLog.query({ limit: 1 })).toEqual({ entries: [expect.objectContaining({ seq: 4 })], totalMatches: 3 });
+    expect(auditLog.query().entries[0].result).toBe('done …');
+  });
+
+  it('should append entries to a file', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'mcp-command-proxy-'));
+    try {
+      const file = join(directory, 'audit.jsonl');
+      const auditLog = new AuditLog({ file });
+      auditLog.record({ timestamp: 1000, durationMs: 1, tool: 'listProcesses', arguments: {}, isError: false, result: '[]' });
+      await auditLog.close();
+
+      expect(JSON.parse(readFileSync(file, 'utf8'))).toEqual(expect.objectContaining({ seq: 1, tool: 'listProcesses' }));
+    } finally {
+      rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,152 @@
+import { createWriteStream, WriteStream } from 'fs';
+import { EventEmitter } from 'events';
+import { CircularBuffer } from './buffer.js';
+
+/**
+ * Record of one MCP tool call
+ */
+export interface AuditEntry {
+  /** Sequence number, increasing by one for every call */
+  seq: number;
+  /** Time the call started */
+  timestamp: number;
+  durationMs: number;
+  /** MCP session the call was made in; absent on stdio */
+  sessionId?: string;
+  tool: string;
+  arguments: Record<string, unknown>;
+  isError: boolean;
+  /** Text of the result, shortened to the configured length */
+  result: string;
+}
+
+/**
+ * Options for reading the audit log
+ */
+export interface AuditQuery {
+  tool?: string;
+  sessionId?: string;
+  since?: number;
+  errorsOnly?: boolean;
+  /** Maximum number of entries to return, keeping the most recent (default: 100) */
+  limit?: number;
+}
+
+/**
+ * Options for the audit log
+ */
+export interface AuditLogOptions {
+  /** Number of calls kept in memory (default: 1000) */
+  maxEntries?: number;
+  /** Results longer than this many characters are shortened (default: 500) */
+  maxResultChars?: number;
+  /** Also append every entry as a JSON line to this file */
+  file?: string;
+}
+
+/**
+ * Result of a tool call as returned to the client
+ */
+interface ToolResult {
+  content: Array<{ type: string; text?: string }>;
+  isError?: boolean;
+}
+
+/**
+ * Records the tool calls made by MCP clients, separately from the output of
+ * the commands, optionally appending them to a JSON Lines file
+ */
+export class AuditLog extends EventEmitter {
+  private readonly entries: CircularBuffer<AuditEntry>;
+  private readonly maxResultChars: number;
+  private readonly stream: WriteStream | null;
+  private seq = 0;
+
+  /**
+   * Create a new audit log
+   * @param options Retention and file options
+   */
+  constructor(options: AuditLogOptions = {}) {
+    super();
+    this.entries = new CircularBuffer<AuditEntry>(options.maxEntries ?? 1000);
+    this.maxResultChars = options.maxResultChars ?? 500;
+    this.stream = options.file ? createWriteStream(options.file, { flags: 'a' }) : null;
+    this.stream?.on('error', (error) => this.emit('error', error));
+  }
+
+  /**
+   * Record a tool call
+   * @returns The recorded entry
+   */
+  record(call: Omit<AuditEntry, 'seq'>): AuditEntry {
+    const entry: AuditEntry = {
+      seq: ++this.seq,
+      ...call,
+      result: call.result.length > this.maxResultChars ? `${call.result.slice(0, this.maxResultChars)}…` : call.result,
+    };
+    this.entries.push(entry);
+    this.stream?.write(JSON.stringify(entry) + '\n');
+    return entry;
+  }
+
+  /**
+   * Get the recorded calls matching a query, oldest first
+   * @returns The most recent matching entries and the total number of matches
+   */
+  query(query: AuditQuery = {}): { entries: AuditEntry[]; totalMatches: number } {
+    const { tool, sessionId, since, errorsOnly = false, limit = 100 } = query;
+    const matches = this.entries.getAll().filter(
+      (entry) =>
+        (tool === undefined || entry.tool === tool) &&
+        (sessionId === undefined || entry.sessionId === sessionId) &&
+        (since === undefined || entry.timestamp >= since) &&
+        (!errorsOnly || entry.isError),
+    );
+    return { entries: matches.slice(-limit), totalMatches: matches.length };
+  }
+
+  /**
+   * Wrap a tool callback so that every call is recorded with its arguments,
+   * result and duration. Calls that throw are recorded and rethrown.
+   */
+  wrap<A extends Record<string, unknown>, E extends { sessionId?: string }, R extends ToolResult>(
+    tool: string,
+    callback: (args: A, extra: E) => R | Promise<R>,
+  ): (args: A, extra: E) => Promise<R> {
+    return async (args, extra) => {
+      const timestamp = Date.now();
+      const record = (isError: boolean, result: string): void => {
+        this.record({
+          timestamp,
+          durationMs: Date.now() - timestamp,
+          sessionId: extra?.sessionId,
+          tool,
+          arguments: args ?? {},
+          isError,
+          result,
+        });
+      };
+
+      let result: R;
+      try {
+        result = await callback(args, extra);
+      } catch (error) {
+        record(true, (error as Error).message);
+        throw error;
+      }
+      record(!!result.isError, result.content.map((item) => item.text ?? `[${item.type}]`).join('\n'));
+      return result;
+    };
+  }
+
+  /**
+   * Close the audit file
+   * @returns Promise that resolves once all entries are flushed
+   */
+  async close(): Promise<void> {
+    const stream = this.stream;
+    if (stream) {
+      await new Promise<void>((resolve) => stream.end(resolve));
+    }
+  }
+}
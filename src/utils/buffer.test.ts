@@ -44,6 +44,51 @@ describe('CircularBuffer', () => {
     });
   });
 
+  describe('byte limit', () => {
+    it('should evict the oldest items when the total size is exceeded', () => {
+      const buffer = new CircularBuffer<string>(10, { maxBytes: 5, sizeOf: (item): number => item.length });
+      buffer.push('ab');
+      buffer.push('cd');
+      buffer.push('ef');
+      expect(buffer.getAll()).toEqual(['cd', 'ef']);
+      expect(buffer.getStats()).toEqual({ size: 2, bytes: 4, droppedItems: 1, droppedBytes: 2 });
+    });
+
+    it('should keep the newest item even if it exceeds the limit alone', () => {
+      const buffer = new CircularBuffer<string>(10, { maxBytes: 5, sizeOf: (item): number => item.length });
+      buffer.push('a');
+      buffer.push('abcdefgh');
+      expect(buffer.getAll()).toEqual(['abcdefgh']);
+    });
+  });
+
+  describe('age limit', () => {
+    it('should evict items older than the maximum age', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(10000);
+      try {
+        const buffer = new CircularBuffer<number>(10, { maxAge: 1000, timestampOf: (item): number => item });
+        buffer.push(8000);
+        buffer.push(9500);
+        expect(buffer.getAll()).toEqual([9500]);
+        now.mockReturnValue(11000);
+        expect(buffer.getAll()).toEqual([]);
+        expect(buffer.getStats().droppedItems).toBe(2);
+      } finally {
+        now.mockRestore();
+      }
+    });
+  });
+
+  describe('getStats', () => {
+    it('should count items dropped because the buffer is full', () => {
+      const buffer = new CircularBuffer<number>(2);
+      buffer.push(1);
+      buffer.push(2);
+      buffer.push(3);
+      expect(buffer.getStats()).toEqual({ size: 2, bytes: 0, droppedItems: 1, droppedBytes: 0 });
+    });
+  });
+
   describe('clear', () => {
     it('should remove all items from the buffer', () => {
       const buffer = new CircularBuffer<number>(5);
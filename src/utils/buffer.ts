@@ -1,36 +1,79 @@
 /**
- * A circular buffer implementation for storing log lines with a fixed capacity
+ * Additional limits for a circular buffer
+ */
+export interface CircularBufferOptions<T> {
+  /** Maximum total size of all items, as measured by sizeOf */
+  maxBytes?: number;
+  /** Maximum age of items in milliseconds, as measured by timestampOf */
+  maxAge?: number;
+  /** Get the size of an item in bytes (required for maxBytes) */
+  sizeOf?: (item: T) => number;
+  /** Get the creation time of an item (required for maxAge) */
+  timestampOf?: (item: T) => number;
+}
+
+/**
+ * Buffer usage and eviction statistics
+ */
+export interface BufferStats {
+  size: number;
+  bytes: number;
+  droppedItems: number;
+  droppedBytes: number;
+}
+
+/**
+ * A circular buffer implementation for storing log lines with a fixed capacity,
+ * optionally also limited by total size and age of the items
  */
 export class CircularBuffer<T> {
   private buffer: T[];
+  private sizes: number[];
   private head: number = 0;
   private tail: number = 0;
   private size: number = 0;
+  private bytes: number = 0;
+  private droppedItems: number = 0;
+  private droppedBytes: number = 0;
   private readonly capacity: number;
+  private readonly options: CircularBufferOptions<T>;
 
   /**
    * Create a new circular buffer
    * @param capacity Maximum number of items the buffer can hold
+   * @param options Optional size and age limits
    */
-  constructor(capacity: number) {
+  constructor(capacity: number, options: CircularBufferOptions<T> = {}) {
     this.buffer = new Array<T>(capacity);
+    this.sizes = new Array<number>(capacity);
     this.capacity = capacity;
+    this.options = options;
   }
 
   /**
-   * Add an item to the buffer, overwriting the oldest item if full
+   * Add an item to the buffer, evicting the oldest items if a limit is exceeded.
+   * The newest item is always kept, even if it alone exceeds the size limit.
    * @param item Item to add to the buffer
    */
   push(item: T): void {
+    if (this.size === this.capacity) {
+      // Buffer is full, drop the oldest item
+      this.evictOldest();
+    }
+
+    const itemSize = this.options.sizeOf ? this.options.sizeOf(item) : 0;
     this.buffer[this.head] = item;
+    this.sizes[this.head] = itemSize;
     this.head = (this.head + 1) % this.capacity;
+    this.size++;
+    this.bytes += itemSize;
 
-    if (this.size < this.capacity) {
-      this.size++;
-    } else {
-      // Buffer is full, move tail forward
-      this.tail = (this.tail + 1) % this.capacity;
+    if (this.options.maxBytes !== undefined) {
+      while (this.bytes > this.options.maxBytes && this.size > 1) {
+        this.evictOldest();
+      }
     }
+    this.evictExpired();
   }
 
   /**
@@ -38,6 +81,8 @@ export class CircularBuffer<T> {
    * @returns Array of items in order of insertion (oldest to newest)
    */
   getAll(): T[] {
+    this.evictExpired();
+
     const result: T[] = [];
     let current = this.tail;
 
@@ -63,12 +108,55 @@ export class CircularBuffer<T> {
     return this.capacity;
   }
 
+  /**
+   * Get usage and eviction statistics
+   */
+  getStats(): BufferStats {
+    this.evictExpired();
+    return {
+      size: this.size,
+      bytes: this.bytes,
+      droppedItems: this.droppedItems,
+      droppedBytes: this.droppedBytes,
+    };
+  }
+
   /**
    * Clear all items from the buffer
    */
   clear(): void {
+    this.buffer = new Array<T>(this.capacity);
     this.head = 0;
     this.tail = 0;
     this.size = 0;
+    this.bytes = 0;
+  }
+
+  /**
+   * Remove the oldest item and record it as dropped
+   */
+  private evictOldest(): void {
+    const itemSize = this.sizes[this.tail];
+    this.buffer[this.tail] = undefined as T;
+    this.tail = (this.tail + 1) % this.capacity;
+    this.size--;
+    this.bytes -= itemSize;
+    this.droppedItems++;
+    this.droppedBytes += itemSize;
+  }
+
+  /**
+   * Remove items older than the maximum age
+   */
+  private evictExpired(): void {
+    const { maxAge, timestampOf } = this.options;
+    if (maxAge === undefined || !timestampOf) {
+      return;
+    }
+
+    const now = Date.now();
+    while (this.size > 0 && now - timestampOf(this.buffer[this.tail]) > maxAge) {
+      this.evictOldest();
+    }
   }
 } 
\ No newline at end of file
@@ -1,13 +1,24 @@
-import * as pty from 'node-pty';
 import { EventEmitter } from 'events';
-import { CircularBuffer } from './buffer.js';
+import { BufferStats, CircularBuffer } from './buffer.js';
+import { RestartPolicy, RestartTracker } from './restart-policy.js';
+import { ResourceSampler, ResourceUsage } from './proc-stats.js';
+import { LineAssembler } from './line-assembler.js';
+import { stripAnsi } from './ansi.js';
+import { ScreenSnapshot, TerminalScreen } from './screen.js';
+import { OutputStream, ProcessHandle, SpawnMode, spawnPipe, spawnPty } from './process-handle.js';
+import { parseCommandLine, quoteShellWord } from './shell-words.js';
 
 /**
  * Log entry type for storing command output
  */
 export interface LogEntry {
+  /** Sequence number, increasing by one for every entry of a runner */
+  seq: number;
   timestamp: number;
+  /** Raw line including ANSI escape sequences */
   content: string;
+  /** Line with ANSI escape sequences stripped */
+  plain: string;
   type: 'stdout' | 'stderr' | 'system';
 }
 
@@ -18,12 +29,14 @@ export enum ProcessStatus {
   RUNNING = 'running',
   STOPPED = 'stopped',
   ERROR = 'error',
+  CRASH_LOOP = 'crash-loop',
 }
 
 /**
  * Events emitted by the CommandRunner
  */
 export interface CommandRunnerEvents {
+  data: (data: string) => void;
   log: (entry: LogEntry) => void;
   exit: (code: number, signal?: string) => void;
   error: (error: Error) => void;
@@ -34,24 +47,151 @@ export interface CommandRunnerEvents {
  * CommandRunner options
  */
 export interface CommandRunnerOptions {
-  command: string;
+  /**
+   * Command line, parsed with shell quoting rules and leading `NAME=value`
+   * environment assignments, or the command and its arguments as an array
+   */
+  command: string | string[];
   args?: string[];
+  /** Run the command through a shell, `true` for /bin/sh or the path of a shell (default: false) */
+  shell?: boolean | string;
   cwd?: string;
+  /** Environment variables set in addition to the environment of the proxy */
   env?: NodeJS.ProcessEnv;
+  /** Start from a minimal environment with only PATH, HOME and the like instead of the environment of the proxy */
+  cleanEnv?: boolean;
   logBufferSize?: number;
+  /** Maximum total size of the log buffer in bytes */
+  logBufferBytes?: number;
+  /** Maximum age of log entries in milliseconds */
+  logBufferMaxAge?: number;
+  restartPolicy?: RestartPolicy;
+  /** Spawn in a pseudo-terminal, or with pipes to capture stderr separately (default: pty) */
+  mode?: SpawnMode;
+  /** Terminal width in columns (default: 80) */
+  cols?: number;
+  /** Terminal height in rows (default: 30) */
+  rows?: number;
+  /** Number of lines the terminal screen keeps after they scroll off (default: 1000) */
+  screenScrollback?: number;
+}
+
+/**
+ * Detailed information about the command process
+ */
+export interface ProcessInfo {
+  status: ProcessStatus;
+  pid: number | null;
+  startedAt: number | null;
+  uptime: number | null;
+  lastExitCode: number | null;
+  lastSignal: number | null;
+  restartCount: number;
+  /** Time of the pending automatic restart while the command waits in backoff */
+  nextRestartAt: number | null;
+  command: string;
+  mode: SpawnMode;
+  cwd: string;
+  /** Names of the environment variables set for the command; values are not reported as they may hold secrets */
+  env: string[];
+  cleanEnv: boolean;
+  terminal: { cols: number; rows: number };
+  logBuffer: BufferStats;
+}
+
+/**
+ * Log entries read after a cursor
+ */
+export interface LogPage {
+  entries: LogEntry[];
+  /** Sequence number to pass as cursor on the next read */
+  nextCursor: number;
+  /** Whether more entries are available after this page */
+  hasMore: boolean;
+  /** Whether entries after the cursor were evicted from the buffer before being read */
+  dropped: boolean;
+  droppedCount: number;
+}
+
+/**
+ * Options for stopping the command process
+ */
+export interface StopOptions {
+  /** Signal sent to the process (default: SIGHUP in pty mode, SIGTERM in pipe mode) */
+  signal?: string;
+  /** Milliseconds to wait for the process to exit before sending SIGKILL */
+  timeout?: number;
+}
+
+/**
+ * Default time to wait for a graceful exit before sending SIGKILL
+ */
+export const DEFAULT_STOP_TIMEOUT = 5000;
+
+/**
+ * Time without further output after which an incomplete line (e.g. a prompt) is logged
+ */
+export const PARTIAL_LINE_TIMEOUT = 200;
+
+/**
+ * Default size of the pseudo-terminal
+ */
+export const DEFAULT_COLS = 80;
+export const DEFAULT_ROWS = 30;
+
+/**
+ * Variables kept from the environment of the proxy with the cleanEnv option
+ */
+export const CLEAN_ENV_VARIABLES = ['PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'LANG', 'TMPDIR', 'SYSTEMROOT'];
+
+/**
+ * Shell used to run commands with the shell option
+ */
+export const DEFAULT_SHELL = '/bin/sh';
+
+/**
+ * Check that a terminal size is valid
+ * @throws Error if a dimension is not a positive integer
+ */
+function assertTerminalSize(cols: number, rows: number): void {
+  if (!Number.isInteger(cols) || !Number.isInteger(rows) || cols < 1 || rows < 1) {
+    throw new Error(`Invalid terminal size ${cols}x${rows}`);
+  }
 }
 
 /**
- * Class that runs a command in a pseudo-terminal and captures output
+ * Class that runs a command in a pseudo-terminal or with pipes and captures output
  */
 export class CommandRunner extends EventEmitter {
-  private process: pty.IPty | null = null;
+  private process: ProcessHandle | null = null;
   private logBuffer: CircularBuffer<LogEntry>;
   private status: ProcessStatus = ProcessStatus.STOPPED;
   private readonly command: string;
   private readonly args: string[];
   private readonly cwd: string;
   private readonly env: NodeJS.ProcessEnv;
+  private readonly envNames: string[];
+  private readonly cleanEnv: boolean;
+  private readonly envAssignments: Record<string, string>;
+  private readonly mode: SpawnMode;
+  private readonly restartTracker: RestartTracker | null;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private nextRestartAt: number | null = null;
+  private stopRequested = false;
+  private startedAt: number | null = null;
+  private lastExitCode: number | null = null;
+  private lastSignal: number | null = null;
+  private spawnCount = 0;
+  private readonly resourceSampler = new ResourceSampler();
+  private lineAssemblers: Record<OutputStream, LineAssembler> = {
+    stdout: new LineAssembler(),
+    stderr: new LineAssembler(),
+  };
+  private partialLineTimers: Record<OutputStream, NodeJS.Timeout | null> = { stdout: null, stderr: null };
+  private nextSeq = 1;
+  private readonly screen: TerminalScreen;
+  private cols: number;
+  private rows: number;
 
   /**
    * Create a new CommandRunner
@@ -60,80 +200,246 @@ export class CommandRunner extends EventEmitter {
     super();
     
     // Parse command and arguments
-    const parts = options.command.split(' ');
-    this.command = parts[0];
-    this.args = parts.slice(1).concat(options.args || []);
+    let argv: string[];
+    if (options.shell) {
+      const words = Array.isArray(options.command) ? options.command.map(quoteShellWord) : [options.command];
+      const script = words.concat((options.args || []).map(quoteShellWord)).join(' ');
+      argv = [options.shell === true ? DEFAULT_SHELL : options.shell, '-c', script];
+      this.envAssignments = {};
+    } else if (Array.isArray(options.command)) {
+      argv = options.command.concat(options.args || []);
+      this.envAssignments = {};
+    } else {
+      const parsed = parseCommandLine(options.command);
+      argv = parsed.argv.concat(options.args || []);
+      this.envAssignments = parsed.env;
+    }
+    if (argv.length === 0) {
+      throw new Error('Command is empty');
+    }
+    this.command = argv[0];
+    this.args = argv.slice(1);
     
     this.cwd = options.cwd || process.cwd();
-    this.env = options.env || process.env;
-    this.logBuffer = new CircularBuffer<LogEntry>(options.logBufferSize || 300);
+    this.cleanEnv = options.cleanEnv ?? false;
+    const baseEnv = this.cleanEnv
+      ? Object.fromEntries(
+          Object.entries(process.env).filter(([name]) => CLEAN_ENV_VARIABLES.includes(name.toUpperCase())),
+        )
+      : process.env;
+    this.env = { ...baseEnv, ...options.env, ...this.envAssignments };
+    this.envNames = Object.keys({ ...options.env, ...this.envAssignments });
+    this.mode = options.mode || 'pty';
+    this.logBuffer = new CircularBuffer<LogEntry>(options.logBufferSize || 300, {
+      maxBytes: options.logBufferBytes,
+      maxAge: options.logBufferMaxAge,
+      sizeOf: (entry): number => Buffer.byteLength(entry.content) + Buffer.byteLength(entry.plain),
+      timestampOf: (entry): number => entry.timestamp,
+    });
+    this.restartTracker = options.restartPolicy ? new RestartTracker(options.restartPolicy) : null;
+    this.cols = options.cols ?? DEFAULT_COLS;
+    this.rows = options.rows ?? DEFAULT_ROWS;
+    assertTerminalSize(this.cols, this.rows);
+    // Pipes end lines with bare line feeds, which a terminal driver would have turned into CR LF
+    this.screen = new TerminalScreen(this.cols, this.rows, options.screenScrollback, this.mode === 'pipe');
+  }
+
+  /**
+   * Start the command process. Starting manually resets crash-loop detection.
+   * @returns Promise that resolves once the process is running or failed to start
+   */
+  start(): Promise<void> {
+    if (this.process) {
+      this.addLogEntry('Command is already running', 'system');
+      return Promise.resolve();
+    }
+
+    this.cancelRestart();
+    this.restartTracker?.reset();
+    return this.spawn();
   }
 
   /**
-   * Start the command process
+   * Spawn the command in a pseudo-terminal or with pipes, depending on the mode
+   * @returns Promise that resolves once the process is running or failed to start
    */
-  start(): void {
+  private spawn(): Promise<void> {
+    this.stopRequested = false;
+    this.lineAssemblers = { stdout: new LineAssembler(), stderr: new LineAssembler() };
+    this.screen.reset();
+
     try {
       // Add a system log entry
-      this.addLogEntry(`Starting command: ${this.command} ${this.args.join(' ')}`, 'system');
+      this.addLogEntry(`Starting command: ${this.getCommandLine()}`, 'system');
       
       // Spawn the process
-      this.process = pty.spawn(this.command, this.args, {
-        name: 'xterm-color',
-        cols: 80,
-        rows: 30,
+      const handle: ProcessHandle = (this.mode === 'pipe' ? spawnPipe : spawnPty)(this.command, this.args, {
         cwd: this.cwd,
-        env: { ...this.env, FORCE_COLOR: '1', TERM: 'xterm-256color' },
-        handleFlowControl: true,
+        env: this.env,
+        cols: this.cols,
+        rows: this.rows,
+        // Handle data events (output)
+        onData: (data, stream) => {
+          this.emit('data', data);
+          this.screen.write(data);
+          this.addOutput(data, stream);
+        },
+        // Pipes report that the executable was found asynchronously
+        onSpawn: () => {
+          if (this.process === handle && this.status !== ProcessStatus.RUNNING) {
+            this.setStatus(ProcessStatus.RUNNING);
+          }
+        },
+        // Handle exit events
+        onExit: (exitCode, signal) => {
+          if (this.process !== handle) {
+            return;
+          }
+          this.flushPartialLines();
+          this.addLogEntry(`Process exited with code ${exitCode} and signal ${signal || 'none'}`, 'system');
+          this.process = null;
+          this.startedAt = null;
+          this.lastExitCode = exitCode;
+          this.lastSignal = signal;
+          this.setStatus(this.scheduleRestart(exitCode, signal) ? ProcessStatus.STOPPED : ProcessStatus.CRASH_LOOP);
+          this.emit('exit', exitCode, signal);
+        },
+        // Handle spawn errors reported after spawning, e.g. a missing executable in pipe mode
+        onError: (error) => {
+          if (this.process !== handle) {
+            return;
+          }
+          this.process = null;
+          this.startedAt = null;
+          this.failToStart(error);
+        },
       });
+      this.process = handle;
+      this.startedAt = Date.now();
+      this.spawnCount++;
 
-      // Set status to running
-      this.setStatus(ProcessStatus.RUNNING);
-
-      // Handle data events (output)
-      this.process.onData((data) => {
-        this.addLogEntry(data, 'stdout');
-      });
-
-      // Handle exit events
-      this.process.onExit(({ exitCode, signal }) => {
-        this.addLogEntry(`Process exited with code ${exitCode} and signal ${signal || 'none'}`, 'system');
-        this.setStatus(ProcessStatus.STOPPED);
-        this.emit('exit', exitCode, signal);
-        this.process = null;
-      });
+      // A pseudo-terminal is running right away, pipes wait for onSpawn
+      if (this.mode === 'pty') {
+        this.setStatus(ProcessStatus.RUNNING);
+      }
+      return this.waitForProcess(handle, (status) => status === ProcessStatus.RUNNING);
     } catch (error) {
-      this.setStatus(ProcessStatus.ERROR);
-      this.addLogEntry(`Error starting command: ${error}`, 'system');
-      this.emit('error', error);
+      this.failToStart(error as Error);
+      return Promise.resolve();
     }
   }
 
   /**
-   * Stop the command process
+   * Wait until a process reaches a status, or is no longer the current process
+   * because it exited or failed to start
+   */
+  private waitForProcess(handle: ProcessHandle, reached: (status: ProcessStatus) => boolean): Promise<void> {
+    return new Promise((resolve) => {
+      const check = (): void => {
+        if (this.process !== handle || reached(this.status)) {
+          this.off('statusChange', check);
+          resolve();
+        }
+      };
+      this.on('statusChange', check);
+      check();
+    });
+  }
+
+  /**
+   * Report that the command could not be started
+   */
+  private failToStart(error: Error): void {
+    this.setStatus(ProcessStatus.ERROR);
+    this.addLogEntry(`Error starting command: ${error}`, 'system');
+    this.emit('error', error);
+  }
+
+  /**
+   * Stop the command process, escalating to SIGKILL if it does not exit in time.
+   * While the command waits for an automatic restart, the restart is cancelled.
+   * @returns Promise that resolves once the process has exited
    */
-  stop(): void {
-    if (this.process && this.status === ProcessStatus.RUNNING) {
-      this.addLogEntry('Stopping command...', 'system');
-      this.process.kill();
+  stop(options: StopOptions = {}): Promise<void> {
+    const { signal, timeout = DEFAULT_STOP_TIMEOUT } = options;
+    const child = this.process;
+
+    this.stopRequested = true;
+    if (this.isRestartPending()) {
+      this.cancelRestart();
+      this.addLogEntry('Cancelled automatic restart', 'system');
+      this.setStatus(ProcessStatus.STOPPED);
+    }
+
+    // A process that is still being spawned is stopped as well
+    if (!child) {
+      return Promise.resolve();
     }
+
+    const killTimer = setTimeout(() => {
+      if (this.process === child) {
+        this.addLogEntry(`Command did not exit within ${timeout}ms, sending SIGKILL`, 'system');
+        child.kill('SIGKILL');
+      }
+    }, timeout);
+    const stopped = this.waitForProcess(child, () => false).then(() => clearTimeout(killTimer));
+
+    this.addLogEntry(`Stopping command${signal ? ` with ${signal}` : ''}...`, 'system');
+    child.kill(signal);
+    return stopped;
   }
 
   /**
-   * Send data (key presses) to the process
+   * Restart the command process, stopping it first if it is running
+   */
+  async restart(options: StopOptions = {}): Promise<void> {
+    this.addLogEntry('Restarting command...', 'system');
+    await this.stop(options);
+    await this.start();
+  }
+
+  /**
+   * Send data (key presses) to the process. Input is not logged; tool calls
+   * that send it are recorded in the audit log instead.
+   * @throws Error if the process is not running or the write fails
    */
   write(data: string): void {
-    if (this.process && this.status === ProcessStatus.RUNNING) {
-      this.addLogEntry(`Attempting to write key: ${JSON.stringify(data)}`, 'system');
-      try {
-        this.process.write(data);
-        this.addLogEntry(`Successfully wrote key`, 'system');
-      } catch (err) {
-        this.addLogEntry(`Failed to write key: ${err}`, 'system');
-      }
-    } else {
-      this.addLogEntry('Cannot write to process: not running', 'system');
+    if (!this.process || this.status !== ProcessStatus.RUNNING) {
+      throw new Error('Command is not running');
+    }
+    this.process.write(data);
+  }
+
+  /**
+   * Close the standard input of the process, so that it reads end-of-file
+   * @throws Error if the process is not running or runs in a pseudo-terminal
+   */
+  closeStdin(): void {
+    if (!this.process || this.status !== ProcessStatus.RUNNING) {
+      throw new Error('Command is not running');
     }
+    this.process.closeStdin();
+    this.addLogEntry('Closed stdin', 'system');
+  }
+
+  /**
+   * Change the terminal size. In pty mode the running process is notified with
+   * SIGWINCH, and later starts use the new size.
+   * @throws Error if the size is not a positive integer
+   */
+  resize(cols: number, rows: number): void {
+    assertTerminalSize(cols, rows);
+    this.cols = cols;
+    this.rows = rows;
+    this.screen.resize(cols, rows);
+    this.process?.resize(cols, rows);
+  }
+
+  /**
+   * Get the terminal size
+   */
+  getTerminalSize(): { cols: number; rows: number } {
+    return { cols: this.cols, rows: this.rows };
   }
 
   /**
@@ -143,6 +449,42 @@ export class CommandRunner extends EventEmitter {
     return this.logBuffer.getAll();
   }
 
+  /**
+   * Get log entries newer than a cursor, oldest first
+   * @param cursor Sequence number of the last entry already read (0 to read from the start)
+   * @param limit Maximum number of entries to return
+   */
+  getLogsSince(cursor: number, limit?: number): LogPage {
+    const logs = this.logBuffer.getAll();
+    const newer = logs.filter((entry) => entry.seq > cursor);
+    const entries = limit !== undefined ? newer.slice(0, limit) : newer;
+    const oldestSeq = logs.length > 0 ? logs[0].seq : this.nextSeq;
+    const droppedCount = Math.max(oldestSeq - cursor - 1, 0);
+
+    return {
+      entries,
+      nextCursor: entries.length > 0 ? entries[entries.length - 1].seq : Math.min(cursor, this.getCursor()),
+      hasMore: entries.length < newer.length,
+      dropped: droppedCount > 0,
+      droppedCount,
+    };
+  }
+
+  /**
+   * Get the terminal screen as currently displayed, which stays available after the process exits
+   * @param scrollback Maximum number of lines above the screen to include
+   */
+  getScreen(scrollback?: number): Promise<ScreenSnapshot> {
+    return this.screen.snapshot(scrollback);
+  }
+
+  /**
+   * Get the sequence number of the most recent log entry, to read only newer entries later
+   */
+  getCursor(): number {
+    return this.nextSeq - 1;
+  }
+
   /**
    * Get current process status
    */
@@ -150,13 +492,152 @@ export class CommandRunner extends EventEmitter {
     return this.status;
   }
 
+  /**
+   * Check whether the command waits in backoff before an automatic restart
+   */
+  isRestartPending(): boolean {
+    return this.restartTimer !== null;
+  }
+
+  /**
+   * Get detailed information about the command process
+   */
+  getInfo(): ProcessInfo {
+    return {
+      status: this.status,
+      pid: this.process?.pid ?? null,
+      startedAt: this.startedAt,
+      uptime: this.startedAt !== null ? Date.now() - this.startedAt : null,
+      lastExitCode: this.lastExitCode,
+      lastSignal: this.lastSignal,
+      restartCount: Math.max(this.spawnCount - 1, 0),
+      nextRestartAt: this.nextRestartAt,
+      command: this.getCommandLine(),
+      mode: this.mode,
+      cwd: this.cwd,
+      env: this.envNames,
+      cleanEnv: this.cleanEnv,
+      terminal: this.getTerminalSize(),
+      logBuffer: this.logBuffer.getStats(),
+    };
+  }
+
+  /**
+   * Sample CPU and memory usage of the process and its descendants
+   * @returns The resource usage, or null if not running or unsupported on this platform
+   */
+  async getResourceUsage(): Promise<ResourceUsage | null> {
+    if (this.process?.pid === undefined) {
+      return null;
+    }
+    return this.resourceSampler.sample(this.process.pid, this.startedAt ?? undefined);
+  }
+
+  /**
+   * Get the full command line being run
+   */
+  getCommandLine(): string {
+    const assignments = Object.entries(this.envAssignments).map(([name, value]) => `${name}=${quoteShellWord(value)}`);
+    return [...assignments, ...[this.command, ...this.args].map(quoteShellWord)].join(' ');
+  }
+
+  /**
+   * Split output of a stream into lines and log each complete line
+   */
+  private addOutput(data: string, stream: OutputStream): void {
+    for (const line of this.lineAssemblers[stream].push(data)) {
+      this.addOutputLine(line, stream);
+    }
+
+    const timer = this.partialLineTimers[stream];
+    if (timer) {
+      clearTimeout(timer);
+      this.partialLineTimers[stream] = null;
+    }
+    if (this.lineAssemblers[stream].hasPartial()) {
+      this.partialLineTimers[stream] = setTimeout(() => this.flushPartialLine(stream), PARTIAL_LINE_TIMEOUT);
+    }
+  }
+
+  /**
+   * Log the pending incomplete line of a stream, if any
+   */
+  private flushPartialLine(stream: OutputStream): void {
+    const timer = this.partialLineTimers[stream];
+    if (timer) {
+      clearTimeout(timer);
+      this.partialLineTimers[stream] = null;
+    }
+    const line = this.lineAssemblers[stream].flush();
+    if (line !== null) {
+      this.addOutputLine(line, stream);
+    }
+  }
+
+  /**
+   * Log the pending incomplete lines of all streams
+   */
+  private flushPartialLines(): void {
+    this.flushPartialLine('stdout');
+    this.flushPartialLine('stderr');
+  }
+
+  /**
+   * Log a line of output, skipping lines that only contained escape sequences
+   */
+  private addOutputLine(line: string, stream: OutputStream): void {
+    const plain = stripAnsi(line);
+    if (plain === '' && line !== '') {
+      return;
+    }
+    this.addLogEntry(line, stream, plain);
+  }
+
+  /**
+   * Schedule an automatic restart after an unrequested exit, if the restart policy asks for one
+   * @returns false if the command is crash-looping and will not be restarted
+   */
+  private scheduleRestart(exitCode: number, signal: number | null): boolean {
+    if (!this.restartTracker || this.stopRequested || !this.restartTracker.shouldRestart(exitCode, signal)) {
+      return true;
+    }
+
+    const next = this.restartTracker.next();
+    if (!next) {
+      this.addLogEntry('Command is crash-looping, automatic restarts disabled until it is started manually', 'system');
+      return false;
+    }
+
+    this.addLogEntry(`Restarting command in ${next.delay}ms (attempt ${next.attempt})`, 'system');
+    this.nextRestartAt = Date.now() + next.delay;
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.nextRestartAt = null;
+      this.spawn();
+    }, next.delay);
+    return true;
+  }
+
+  /**
+   * Cancel a pending automatic restart
+   */
+  private cancelRestart(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+      this.nextRestartAt = null;
+    }
+  }
+
   /**
    * Add a log entry to the buffer and emit a log event
    */
-  private addLogEntry(content: string, type: LogEntry['type']): void {
+  private addLogEntry(content: string, type: LogEntry['type'], plain: string = content): void {
     const entry: LogEntry = {
+      seq: this.nextSeq++,
       timestamp: Date.now(),
       content,
+      plain,
       type,
     };
     
@@ -0,0 +1,153 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { findConfigFile, loadConfigFile, toCommandDefinitions, validateConfig } from './config';
+
+describe('config', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'mcp-command-proxy-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('findConfigFile', () => {
+    it('should find the config file in a directory', () => {
+      expect(findConfigFile(directory)).toBeNull();
+      writeFileSync(join(directory, 'mcp-command-proxy.config.yaml'), 'port: 8383');
+      expect(findConfigFile(directory)).toBe(join(directory, 'mcp-command-proxy.config.yaml'));
+      writeFileSync(join(directory, 'mcp-command-proxy.config.json'), '{}');
+      expect(findConfigFile(directory)).toBe(join(directory, 'mcp-command-proxy.config.json'));
+    });
+  });
+
+  describe('loadConfigFile', () => {
+    it('should load a JSON file and resolve paths against its directory', () => {
+      const path = join(directory, 'config.json');
+      writeFileSync(path, JSON.stringify({
+        prefix: 'Dev',
+        port: 8383,
+        cwd: 'app',
+        commands: ['expo start', { name: 'api', command: 'npm run api', cwd: '/srv/api' }],
+        logFile: { directory: 'logs', maxFiles: 3 },
+      }));
+
+      expect(loadConfigFile(path)).toEqual({
+        prefix: 'Dev',
+        port: 8383,
+        cwd: join(directory, 'app'),
+        commands: [
+          { command: 'expo start' },
+          { name: 'api', command: 'npm run api', cwd: '/srv/api' },
+        ],
+        logFile: { directory: join(directory, 'logs'), maxFiles: 3 },
+      });
+    });
+
+    it('should load a YAML file', () => {
+      const path = join(directory, 'config.yml');
+      writeFileSync(path, [
+        'transport: stdio',
+        'commands:',
+        '  - name: tsc',
+        '    command: [tsc, --watch]',
+        '    mode: pipe',
+        '    restart:',
+        '      mode: on-failure',
+      ].join('\n'));
+
+      expect(loadConfigFile(path)).toEqual(expect.objectContaining({
+        transport: 'stdio',
+        commands: [{ name: 'tsc', command: ['tsc', '--watch'], mode: 'pipe', restart: { mode: 'on-failure' } }],
+      }));
+    });
+
+    it('should report unreadable and malformed files', () => {
+      expect(() => loadConfigFile(join(directory, 'missing.json'))).toThrow('Cannot read config file');
+      const path = join(directory, 'broken.json');
+      writeFileSync(path, '{ "port": ');
+      expect(() => loadConfigFile(path)).toThrow(`Cannot parse config file ${path}`);
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('should list every invalid value with its path', () => {
+      let message = '';
+      try {
+        validateConfig({ port: 'abc', commands: [{ name: 'API', command: '' }], unknown: true }, 'test.json');
+      } catch (error) {
+        message = (error as Error).message;
+      }
+      expect(message).toMatch(/^Invalid config in test.json:\n/);
+      expect(message).toContain('  - port: Expected number, received string');
+      expect(message).toContain('  - commands.0.name: Must be lowercase');
+      expect(message).toContain('  - commands.0.command:');
+      expect(message).toContain(`  - (root): Unrecognized key(s) in object: 'unknown'`);
+    });
+
+    it('should reject invalid restart policies', () => {
+      expect(() => validateConfig({ commands: [{ command: 'a', restart: { mode: 'sometimes' } }] }, 'test.json'))
+        .toThrow('commands.0.restart.mode');
+    });
+
+    it('should accept input policies and reject unknown policy options', () => {
+      expect(validateConfig({ policy: { readOnly: true, allowedInput: ['y', 'enter'] } }, 'test.json').policy)
+        .toEqual({ readOnly: true, allowedInput: ['y', 'enter'] });
+      expect(() => validateConfig({ policy: { readonly: true } }, 'test.json')).toThrow('policy');
+    });
+  });
+
+  describe('toCommandDefinitions', () => {
+    it('should name unnamed commands and apply shared options', () => {
+      const definitions = toCommandDefinitions({
+        cwd: '/app',
+        env: { NODE_ENV: 'development' },
+        commands: [
+          { command: 'expo start' },
+          { name: 'api', command: 'npm run api', cwd: '/api', env: { PORT: '3000' }, restart: { mode: 'always' } },
+          { command: 'tsc --watch' },
+        ],
+      });
+
+      expect(definitions.map(({ name }) => name)).toEqual(['default', 'api', 'default-2']);
+      expect(definitions[0]).toEqual(expect.objectContaining({ command: 'expo start', cwd: '/app' }));
+      expect(definitions[0].env).toEqual(expect.objectContaining({ NODE_ENV: 'development' }));
+      expect(definitions[1]).toEqual(expect.objectContaining({ cwd: '/api', restartPolicy: { mode: 'always' } }));
+      expect(definitions[1].env).toEqual(expect.objectContaining({ NODE_ENV: 'development', PORT: '3000' }));
+    });
+
+    it('should load env files relative to the config file, with env taking precedence', () => {
+      writeFileSync(join(directory, '.env'), 'NODE_ENV=production\nSECRET=shared\n');
+      writeFileSync(join(directory, 'api.env'), 'SECRET=api\n');
+      const path = join(directory, 'config.yaml');
+      writeFileSync(path, [
+        'envFile: .env',
+        'env:',
+        '  NODE_ENV: development',
+        'commands:',
+        '  - expo start',
+        '  - name: api',
+        '    command: npm run api',
+        '    envFile: [api.env]',
+        '    cleanEnv: true',
+      ].join('\n'));
+
+      const definitions = toCommandDefinitions(loadConfigFile(path));
+      expect(definitions[0].env).toEqual({ NODE_ENV: 'development', SECRET: 'shared' });
+      expect(definitions[0].cleanEnv).toBeUndefined();
+      expect(definitions[1].env).toEqual({ NODE_ENV: 'development', SECRET: 'api' });
+      expect(definitions[1].cleanEnv).toBe(true);
+    });
+
+    it('should reject commands that need a shell they do not use', () => {
+      const config = { commands: [{ name: 'build', command: 'npm run build && npm start' }] };
+
+      expect(() => toCommandDefinitions(config)).toThrow('Command "build": Command uses shell syntax "&&"');
+      expect(toCommandDefinitions({ commands: [{ ...config.commands[0], shell: true }] })[0].shell).toBe(true);
+      expect(toCommandDefinitions(config, true)[0].shell).toBe(true);
+    });
+  });
+});
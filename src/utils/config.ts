@@ -0,0 +1,224 @@
+import { existsSync, readFileSync } from 'fs';
+import { dirname, extname, join, resolve } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { RESTART_MODES, RestartMode } from './restart-policy.js';
+import { SPAWN_MODES, SpawnMode } from './process-handle.js';
+import { checkCommandLine, CommandDefinition, defaultProcessName } from './process-manager.js';
+import { loadEnvFile } from './env-file.js';
+
+/**
+ * File names looked up in the working directory when no config file is given
+ */
+export const CONFIG_FILE_NAMES = [
+  'mcp-command-proxy.config.json',
+  'mcp-command-proxy.config.yaml',
+  'mcp-command-proxy.config.yml',
+];
+
+const positiveInteger = z.number().int().positive();
+
+// A single dotenv file or a list of files loaded in order
+const envFileSchema = z.union([z.string(), z.array(z.string())]);
+
+const restartPolicySchema = z
+  .object({
+    mode: z.enum(RESTART_MODES as [RestartMode, ...RestartMode[]]),
+    maxRestarts: positiveInteger.optional(),
+    window: positiveInteger.optional(),
+    initialDelay: z.number().int().nonnegative().optional(),
+    maxDelay: z.number().int().nonnegative().optional(),
+  })
+  .strict();
+
+const commandSchema = z
+  .object({
+    name: z
+      .string()
+      .regex(/^[a-z0-9][a-z0-9._-]*$/, 'Must be lowercase letters, digits, ".", "_" or "-"')
+      .optional(),
+    command: z.union([z.string().min(1), z.array(z.string()).min(1)]),
+    cwd: z.string().optional(),
+    env: z.record(z.string()).optional(),
+    envFile: envFileSchema.optional(),
+    cleanEnv: z.boolean().optional(),
+    shell: z.union([z.boolean(), z.string()]).optional(),
+    mode: z.enum(SPAWN_MODES as [SpawnMode, ...SpawnMode[]]).optional(),
+    restart: restartPolicySchema.optional(),
+    cols: positiveInteger.optional(),
+    rows: positiveInteger.optional(),
+  })
+  .strict();
+
+/**
+ * Schema of the config file. Commands may be given as command lines or as objects.
+ */
+export const configSchema = z
+  .object({
+    prefix: z.string().min(1).optional(),
+    // Expand command lines to objects, which gives more precise errors than a union
+    commands: z
+      .array(z.preprocess((value) => (typeof value === 'string' ? { command: value } : value), commandSchema))
+      .optional(),
+    /** Working directory of all commands, relative to the config file */
+    cwd: z.string().optional(),
+    /** Environment variables of all commands */
+    env: z.record(z.string()).optional(),
+    /** Dotenv files of all commands, relative to the config file */
+    envFile: envFileSchema.optional(),
+    /** Start all commands from a minimal environment */
+    cleanEnv: z.boolean().optional(),
+    bufferSize: positiveInteger.optional(),
+    bufferBytes: positiveInteger.optional(),
+    bufferMaxAge: positiveInteger.optional(),
+    cols: positiveInteger.optional(),
+    rows: positiveInteger.optional(),
+    transport: z.enum(['http', 'stdio']).optional(),
+    port: z.number().int().min(1).max(65535).optional(),
+    host: z.string().min(1).optional(),
+    token: z.string().min(1).optional(),
+    allowedOrigins: z.array(z.string()).optional(),
+    logFile: z
+      .object({
+        directory: z.string(),
+        maxBytes: positiveInteger.optional(),
+        rotateInterval: positiveInteger.optional(),
+        maxFiles: positiveInteger.optional(),
+        maxAge: positiveInteger.optional(),
+      })
+      .strict()
+      .optional(),
+    /** File the audit log of tool calls is appended to, relative to the config file */
+    auditFile: z.string().optional(),
+    /** Which tools are registered and what input they may send */
+    policy: z
+      .object({
+        readOnly: z.boolean().optional(),
+        allowedInput: z.array(z.string()).optional(),
+        enabledTools: z.array(z.string()).optional(),
+        disabledTools: z.array(z.string()).optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict();
+
+/**
+ * Contents of a config file
+ */
+export type ProxyConfig = z.infer<typeof configSchema>;
+
+/**
+ * Wrap a single value in an array
+ */
+function toArray<T>(value: T | T[]): T[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Find the config file in a directory
+ * @returns The path of the first existing file of CONFIG_FILE_NAMES, or null
+ */
+export function findConfigFile(directory: string): string | null {
+  const path = CONFIG_FILE_NAMES.map((name) => join(directory, name)).find((candidate) => existsSync(candidate));
+  return path ?? null;
+}
+
+/**
+ * Validate config data
+ * @param source Name of the config in error messages
+ * @throws Error listing every invalid value
+ */
+export function validateConfig(data: unknown, source: string): ProxyConfig {
+  const result = configSchema.safeParse(data);
+  if (!result.success) {
+    const problems = result.error.issues.map(
+      (issue) => `  - ${issue.path.length > 0 ? issue.path.join('.') : '(root)'}: ${issue.message}`,
+    );
+    throw new Error(`Invalid config in ${source}:\n${problems.join('\n')}`);
+  }
+  return result.data;
+}
+
+/**
+ * Read and validate a JSON or YAML config file. Relative paths in the file are
+ * resolved against the directory of the file.
+ * @throws Error if the file cannot be read, parsed or validated
+ */
+export function loadConfigFile(path: string): ProxyConfig {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read config file ${path}: ${(error as Error).message}`);
+  }
+
+  let data: unknown;
+  try {
+    data = ['.yaml', '.yml'].includes(extname(path).toLowerCase()) ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Cannot parse config file ${path}: ${(error as Error).message}`);
+  }
+
+  const config = validateConfig(data, path);
+  const baseDir = dirname(resolve(path));
+  const resolvePaths = <T extends { cwd?: string; envFile?: string | string[] }>(value: T): T => {
+    const resolved = { ...value };
+    if (value.cwd) {
+      resolved.cwd = resolve(baseDir, value.cwd);
+    }
+    if (value.envFile) {
+      resolved.envFile = toArray(value.envFile).map((file) => resolve(baseDir, file));
+    }
+    return resolved;
+  };
+
+  return {
+    ...resolvePaths(config),
+    commands: config.commands?.map(resolvePaths),
+    logFile: config.logFile && { ...config.logFile, directory: resolve(baseDir, config.logFile.directory) },
+    auditFile: config.auditFile && resolve(baseDir, config.auditFile),
+  };
+}
+
+/**
+ * Load dotenv files in order, later files overriding earlier ones
+ * @throws Error if a file cannot be read or is malformed
+ */
+export function loadEnvFiles(files: string | string[] | undefined): Record<string, string> {
+  return Object.assign({}, ...toArray(files ?? []).map(loadEnvFile));
+}
+
+/**
+ * Turn the commands of a config into command definitions, naming unnamed commands
+ * like the CLI does and applying the shared working directory and environment.
+ * Variables given in env override those of env files.
+ * @param shell Run all commands through a shell, as with --shell
+ * @throws Error if an env file cannot be loaded or a command needs a shell that it does not use
+ */
+export function toCommandDefinitions(config: ProxyConfig, shell = false): CommandDefinition[] {
+  let unnamed = 0;
+  const sharedEnv = { ...loadEnvFiles(config.envFile), ...config.env };
+  return (config.commands || []).map(({ name, restart, env, envFile, cleanEnv, ...options }) => {
+    const definition: CommandDefinition = {
+      ...options,
+      name: name || defaultProcessName(++unnamed),
+      cwd: options.cwd ?? config.cwd,
+    };
+    const commandEnv = { ...sharedEnv, ...loadEnvFiles(envFile), ...env };
+    if (Object.keys(commandEnv).length > 0) {
+      definition.env = commandEnv;
+    }
+    if (cleanEnv ?? config.cleanEnv) {
+      definition.cleanEnv = true;
+    }
+    if (restart) {
+      definition.restartPolicy = restart;
+    }
+    if (shell && !definition.shell) {
+      definition.shell = true;
+    }
+    checkCommandLine(definition);
+    return definition;
+  });
+}
@@ -0,0 +1,37 @@
+import { parseEnvFile } from './env-file';
+
+describe('parseEnvFile', () => {
+  it('should parse assignments and skip comments and blank lines', () => {
+    expect(parseEnvFile([
+      '# database',
+      'DB_HOST=localhost',
+      '',
+      'export DB_PORT = 5432',
+      'EMPTY=',
+      'URL=http://example.com/#anchor # comment',
+    ].join('\n'))).toEqual({
+      DB_HOST: 'localhost',
+      DB_PORT: '5432',
+      EMPTY: '',
+      URL: 'http://example.com/#anchor',
+    });
+  });
+
+  it('should take single-quoted values literally', () => {
+    expect(parseEnvFile(`PASSWORD='p#ss\\nword' # comment`)).toEqual({ PASSWORD: 'p#ss\\nword' });
+  });
+
+  it('should unescape double-quoted values spanning lines', () => {
+    expect(parseEnvFile('GREETING="hello\\n\\"world\\""\r\nKEY="line 1\nline 2"\nNEXT=1')).toEqual({
+      GREETING: 'hello\n"world"',
+      KEY: 'line 1\nline 2',
+      NEXT: '1',
+    });
+  });
+
+  it('should report malformed lines', () => {
+    expect(() => parseEnvFile('A=1\nnot an assignment')).toThrow('Invalid line 2');
+    expect(() => parseEnvFile(`A='open`)).toThrow('Unterminated single quote on line 1');
+    expect(() => parseEnvFile('A=1\nB="open\nstill open')).toThrow('Unterminated double quote on line 2');
+  });
+});
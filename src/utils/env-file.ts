@@ -0,0 +1,87 @@
+import { readFileSync } from 'fs';
+
+/**
+ * Escapes recognized in double-quoted values
+ */
+const ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', '"': '"', '\\': '\\' };
+
+/**
+ * Parse the contents of a dotenv file. Supports comments, an optional `export`
+ * prefix, single-quoted values taken literally, double-quoted values with
+ * escapes spanning several lines, and comments after unquoted values.
+ * Variables are not expanded.
+ * @throws Error naming the line of a malformed entry
+ */
+export function parseEnvFile(content: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (line === '' || line.startsWith('#')) {
+      continue;
+    }
+
+    const match = /^(?:export\s+)?([A-Za-z_][A-Za-z0-9_.]*)\s*=\s*(.*)$/.exec(line);
+    if (!match) {
+      throw new Error(`Invalid line ${i + 1}: expected NAME=value`);
+    }
+    const [, name, rest] = match;
+    const lineNumber = i + 1;
+
+    if (rest.startsWith("'")) {
+      const end = rest.indexOf("'", 1);
+      if (end < 0) {
+        throw new Error(`Unterminated single quote on line ${lineNumber}`);
+      }
+      env[name] = rest.slice(1, end);
+    } else if (rest.startsWith('"')) {
+      // Double-quoted values may continue on the following lines
+      let text = rest.slice(1);
+      let value = '';
+      for (;;) {
+        let j = 0;
+        for (; j < text.length && text[j] !== '"'; j++) {
+          if (text[j] === '\\' && j + 1 < text.length) {
+            j++;
+            value += ESCAPES[text[j]] ?? `\\${text[j]}`;
+          } else {
+            value += text[j];
+          }
+        }
+        if (j < text.length) {
+          break;
+        }
+        if (++i >= lines.length) {
+          throw new Error(`Unterminated double quote on line ${lineNumber}`);
+        }
+        value += '\n';
+        text = lines[i];
+      }
+      env[name] = value;
+    } else {
+      // A # preceded by whitespace starts a comment
+      env[name] = rest.replace(/\s+#.*$/, '').trim();
+    }
+  }
+
+  return env;
+}
+
+/**
+ * Read and parse a dotenv file
+ * @throws Error if the file cannot be read or is malformed
+ */
+export function loadEnvFile(path: string): Record<string, string> {
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new Error(`Cannot read env file ${path}: ${(error as Error).message}`);
+  }
+  try {
+    return parseEnvFile(content);
+  } catch (error) {
+    throw new Error(`Invalid env file ${path}: ${(error as Error).message}`);
+  }
+}
@@ -0,0 +1,90 @@
+import type { NextFunction, Request, Response } from 'express';
+import { bearerAuth, isLoopbackHost, isOriginAllowed, originCheck, tokensMatch } from './http-auth';
+
+const mockResponse = (): jest.Mocked<Response> => {
+  const res = {
+    status: jest.fn(),
+    set: jest.fn(),
+    send: jest.fn(),
+  };
+  res.status.mockReturnValue(res);
+  res.set.mockReturnValue(res);
+  return res as unknown as jest.Mocked<Response>;
+};
+
+const mockRequest = (headers: Record<string, string>): Request => ({ headers }) as unknown as Request;
+
+describe('tokensMatch', () => {
+  it('should accept the same token', () => {
+    expect(tokensMatch('secret', 'secret')).toBe(true);
+  });
+
+  it('should reject a different token or length', () => {
+    expect(tokensMatch('secret', 'secreT')).toBe(false);
+    expect(tokensMatch('secret', 'secret-but-longer')).toBe(false);
+  });
+});
+
+describe('isLoopbackHost', () => {
+  it('should recognize loopback hosts', () => {
+    expect(isLoopbackHost('127.0.0.1')).toBe(true);
+    expect(isLoopbackHost('localhost')).toBe(true);
+    expect(isLoopbackHost('::1')).toBe(true);
+    expect(isLoopbackHost('0.0.0.0')).toBe(false);
+  });
+});
+
+describe('isOriginAllowed', () => {
+  it('should allow requests without an origin', () => {
+    expect(isOriginAllowed(undefined)).toBe(true);
+  });
+
+  it('should allow local origins', () => {
+    expect(isOriginAllowed('http://localhost:3000')).toBe(true);
+    expect(isOriginAllowed('http://127.0.0.1:8080')).toBe(true);
+    expect(isOriginAllowed('http://[::1]:8080')).toBe(true);
+  });
+
+  it('should reject other origins unless allowed explicitly', () => {
+    expect(isOriginAllowed('http://evil.example')).toBe(false);
+    expect(isOriginAllowed('null')).toBe(false);
+    expect(isOriginAllowed('https://app.example', ['https://app.example'])).toBe(true);
+  });
+});
+
+describe('bearerAuth', () => {
+  const middleware = bearerAuth('secret');
+
+  it('should pass requests with the token', () => {
+    const next: NextFunction = jest.fn();
+    middleware(mockRequest({ authorization: 'Bearer secret' }), mockResponse(), next);
+    expect(next).toHaveBeenCalled();
+  });
+
+  it('should reject requests without a valid token', () => {
+    const cases: Array<Record<string, string>> = [{}, { authorization: 'Bearer wrong' }, { authorization: 'Basic secret' }];
+    for (const headers of cases) {
+      const next: NextFunction = jest.fn();
+      const res = mockResponse();
+      middleware(mockRequest(headers), res, next);
+      expect(next).not.toHaveBeenCalled();
+      expect(res.status).toHaveBeenCalledWith(401);
+    }
+  });
+});
+
+describe('originCheck', () => {
+  it('should reject requests from foreign origins', () => {
+    const next: NextFunction = jest.fn();
+    const res = mockResponse();
+    originCheck()(mockRequest({ origin: 'http://evil.example' }), res, next);
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(403);
+  });
+
+  it('should pass requests without an origin', () => {
+    const next: NextFunction = jest.fn();
+    originCheck()(mockRequest({}), mockResponse(), next);
+    expect(next).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+
+/**
+ * Host names that only resolve to the local machine
+ */
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+/**
+ * Compare two tokens in constant time
+ */
+export function tokensMatch(expected: string, actual: string): boolean {
+  // Hash both sides so that the comparison does not leak the token length
+  const expectedDigest = createHash('sha256').update(expected).digest();
+  const actualDigest = createHash('sha256').update(actual).digest();
+  return timingSafeEqual(expectedDigest, actualDigest);
+}
+
+/**
+ * Check whether a host name only resolves to the local machine
+ */
+export function isLoopbackHost(host: string): boolean {
+  return LOOPBACK_HOSTS.includes(host) || host === '::1';
+}
+
+/**
+ * Check whether a browser Origin header may access the server. Requests
+ * without an Origin header do not come from a web page and are allowed.
+ * @param origin Value of the Origin header
+ * @param allowedOrigins Origins allowed in addition to local ones
+ */
+export function isOriginAllowed(origin: string | undefined, allowedOrigins: string[] = []): boolean {
+  if (origin === undefined) {
+    return true;
+  }
+  if (allowedOrigins.includes(origin)) {
+    return true;
+  }
+
+  try {
+    return isLoopbackHost(new URL(origin).hostname);
+  } catch {
+    // Includes the literal "null" origin of sandboxed pages and local files
+    return false;
+  }
+}
+
+/**
+ * Create middleware that requires an `Authorization: Bearer <token>` header
+ */
+export function bearerAuth(token: string): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || '');
+    if (!match || !tokensMatch(token, match[1].trim())) {
+      res.status(401).set('WWW-Authenticate', 'Bearer').send('Unauthorized');
+      return;
+    }
+    next();
+  };
+}
+
+/**
+ * Create middleware that rejects requests from web pages on other origins,
+ * which protects against DNS rebinding attacks from browsers
+ */
+export function originCheck(allowedOrigins: string[] = []): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    if (!isOriginAllowed(req.headers.origin, allowedOrigins)) {
+      res.status(403).send('Forbidden origin');
+      return;
+    }
+    next();
+  };
+}
@@ -0,0 +1,61 @@
+import { encodeKey } from './keys';
+
+describe('encodeKey', () => {
+  it('should send single characters as they are', () => {
+    expect(encodeKey('a')).toBe('a');
+    expect(encodeKey('R')).toBe('R');
+    expect(encodeKey('+')).toBe('+');
+    expect(encodeKey('é')).toBe('é');
+    expect(encodeKey('😀')).toBe('😀');
+  });
+
+  it('should encode named keys ignoring case and separators', () => {
+    expect(encodeKey('enter')).toBe('\r');
+    expect(encodeKey('Escape')).toBe('\x1b');
+    expect(encodeKey('up')).toBe('\x1b[A');
+    expect(encodeKey('ArrowLeft')).toBe('\x1b[D');
+    expect(encodeKey('page-down')).toBe('\x1b[6~');
+    expect(encodeKey('PageUp')).toBe('\x1b[5~');
+    expect(encodeKey('home')).toBe('\x1b[H');
+    expect(encodeKey('delete')).toBe('\x1b[3~');
+  });
+
+  it('should encode function keys', () => {
+    expect(encodeKey('f1')).toBe('\x1bOP');
+    expect(encodeKey('F5')).toBe('\x1b[15~');
+    expect(encodeKey('f12')).toBe('\x1b[24~');
+  });
+
+  it('should encode ctrl combinations as control characters', () => {
+    expect(encodeKey('ctrl+c')).toBe('\x03');
+    expect(encodeKey('Ctrl+D')).toBe('\x04');
+    expect(encodeKey('control+[')).toBe('\x1b');
+    expect(encodeKey('ctrl+space')).toBe('\x00');
+  });
+
+  it('should prefix alt combinations with escape', () => {
+    expect(encodeKey('alt+x')).toBe('\x1bx');
+    expect(encodeKey('alt+ctrl+c')).toBe('\x1b\x03');
+    expect(encodeKey('alt++')).toBe('\x1b+');
+    expect(encodeKey('alt+😀')).toBe('\x1b😀');
+  });
+
+  it('should encode shift combinations', () => {
+    expect(encodeKey('shift+a')).toBe('A');
+    expect(encodeKey('shift+tab')).toBe('\x1b[Z');
+  });
+
+  it('should add the modifier parameter to cursor and editing keys', () => {
+    expect(encodeKey('ctrl+left')).toBe('\x1b[1;5D');
+    expect(encodeKey('shift+up')).toBe('\x1b[1;2A');
+    expect(encodeKey('alt+f1')).toBe('\x1b[1;3P');
+    expect(encodeKey('ctrl+delete')).toBe('\x1b[3;5~');
+  });
+
+  it('should reject unknown keys', () => {
+    expect(() => encodeKey('hello')).toThrow('Unknown key "hello"');
+    expect(() => encodeKey('hyper+x')).toThrow('Unknown key "hyper+x"');
+    expect(() => encodeKey('ctrl+')).toThrow('Unknown key');
+    expect(() => encodeKey('ctrl+1')).toThrow('Cannot combine ctrl with "1"');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Escape sequences of named keys as sent by xterm in normal cursor mode
+ */
+const NAMED_KEYS: Record<string, string> = {
+  enter: '\r',
+  return: '\r',
+  space: ' ',
+  tab: '\t',
+  escape: '\x1b',
+  esc: '\x1b',
+  backspace: '\x7f',
+  up: '\x1b[A',
+  down: '\x1b[B',
+  right: '\x1b[C',
+  left: '\x1b[D',
+  home: '\x1b[H',
+  end: '\x1b[F',
+  insert: '\x1b[2~',
+  delete: '\x1b[3~',
+  pageup: '\x1b[5~',
+  pagedown: '\x1b[6~',
+  f1: '\x1bOP',
+  f2: '\x1bOQ',
+  f3: '\x1bOR',
+  f4: '\x1bOS',
+  f5: '\x1b[15~',
+  f6: '\x1b[17~',
+  f7: '\x1b[18~',
+  f8: '\x1b[19~',
+  f9: '\x1b[20~',
+  f10: '\x1b[21~',
+  f11: '\x1b[23~',
+  f12: '\x1b[24~',
+};
+
+/**
+ * Alternative spellings of key names
+ */
+const KEY_ALIASES: Record<string, string> = {
+  arrowup: 'up',
+  arrowdown: 'down',
+  arrowright: 'right',
+  arrowleft: 'left',
+  del: 'delete',
+  ins: 'insert',
+  pgup: 'pageup',
+  pgdn: 'pagedown',
+};
+
+/**
+ * Modifier names and their bit in the xterm modifier parameter
+ */
+const MODIFIERS: Record<string, number> = {
+  shift: 1,
+  alt: 2,
+  meta: 2,
+  option: 2,
+  ctrl: 4,
+  control: 4,
+};
+
+/**
+ * Look up a named key, ignoring case, dashes and underscores
+ */
+function lookupNamedKey(name: string): string | undefined {
+  const normalized = name.toLowerCase().replace(/[-_ ]/g, '');
+  return NAMED_KEYS[KEY_ALIASES[normalized] ?? normalized];
+}
+
+/**
+ * Encode a key with modifiers the way xterm does
+ * @param base Sequence of the key without modifiers
+ * @param modifiers Bit mask of the pressed modifiers
+ */
+function applyModifiers(base: string, modifiers: number): string {
+  if (modifiers === 0) {
+    return base;
+  }
+
+  // Cursor, Home/End and F1-F4 keys: ESC [ 1 ; <mod> <final> or ESC O <final>
+  // eslint-disable-next-line no-control-regex
+  const letterKey = /^\x1b[[O]([A-Z])$/.exec(base);
+  if (letterKey) {
+    return `\x1b[1;${modifiers + 1}${letterKey[1]}`;
+  }
+  // Editing and F5-F12 keys: ESC [ <code> ; <mod> ~
+  // eslint-disable-next-line no-control-regex
+  const tildeKey = /^\x1b\[(\d+)~$/.exec(base);
+  if (tildeKey) {
+    return `\x1b[${tildeKey[1]};${modifiers + 1}~`;
+  }
+
+  let sequence = base;
+  if (modifiers & MODIFIERS.shift) {
+    if (sequence === '\t') {
+      sequence = '\x1b[Z';
+    } else if ([...sequence].length === 1) {
+      sequence = sequence.toUpperCase();
+    }
+  }
+  if (modifiers & MODIFIERS.ctrl) {
+    sequence = applyControl(sequence);
+  }
+  if (modifiers & MODIFIERS.alt) {
+    sequence = '\x1b' + sequence;
+  }
+  return sequence;
+}
+
+/**
+ * Map a character to its control character, e.g. `c` to ETX for Ctrl+C
+ * @throws Error if the key has no control character
+ */
+function applyControl(key: string): string {
+  if (key === ' ' || key === '@' || key === '2') {
+    return '\x00';
+  }
+  if (key === '?' || key === '\x7f') {
+    return '\x7f';
+  }
+  const code = key.length === 1 ? key.toUpperCase().charCodeAt(0) : -1;
+  // A-Z and [ \ ] ^ _
+  if (code >= 0x41 && code <= 0x5f) {
+    return String.fromCharCode(code - 0x40);
+  }
+  throw new Error(`Cannot combine ctrl with "${key}"`);
+}
+
+/**
+ * Translate a key description into the bytes a terminal sends for it.
+ * Accepts single characters, named keys such as `enter`, `up`, `pagedown` or `f5`,
+ * and combinations with modifiers such as `ctrl+c`, `alt+x` or `shift+tab`.
+ * @throws Error if the key is unknown
+ */
+export function encodeKey(key: string): string {
+  if ([...key].length === 1) {
+    return key;
+  }
+
+  const named = lookupNamedKey(key);
+  if (named !== undefined) {
+    return named;
+  }
+
+  // Split modifiers off the end, so that `ctrl++` means ctrl with the plus key
+  const parts = key.split('+');
+  let base = parts.pop() as string;
+  if (base === '' && parts.length > 0 && parts[parts.length - 1] === '') {
+    parts.pop();
+    base = '+';
+  }
+
+  let modifiers = 0;
+  for (const part of parts) {
+    const modifier = MODIFIERS[part.toLowerCase()];
+    if (modifier === undefined) {
+      throw new Error(`Unknown key "${key}" (use sendText to type text)`);
+    }
+    modifiers |= modifier;
+  }
+
+  const baseSequence = [...base].length === 1 ? base : lookupNamedKey(base);
+  if (parts.length === 0 || baseSequence === undefined) {
+    throw new Error(`Unknown key "${key}" (use sendText to type text)`);
+  }
+  return applyModifiers(baseSequence, modifiers);
+}
@@ -0,0 +1,49 @@
+import { collapseCarriageReturns, LineAssembler } from './line-assembler';
+
+describe('collapseCarriageReturns', () => {
+  it('should keep the last drawn segment', () => {
+    expect(collapseCarriageReturns('10%\r50%\r100%')).toBe('100%');
+  });
+
+  it('should ignore a trailing carriage return', () => {
+    expect(collapseCarriageReturns('done\r')).toBe('done');
+  });
+
+  it('should leave lines without carriage returns untouched', () => {
+    expect(collapseCarriageReturns('hello')).toBe('hello');
+  });
+});
+
+describe('LineAssembler', () => {
+  describe('push', () => {
+    it('should return complete lines only', () => {
+      const assembler = new LineAssembler();
+      expect(assembler.push('one\ntw')).toEqual(['one']);
+      expect(assembler.push('o\nthree\n')).toEqual(['two', 'three']);
+      expect(assembler.hasPartial()).toBe(false);
+    });
+
+    it('should handle CRLF split across chunks', () => {
+      const assembler = new LineAssembler();
+      expect(assembler.push('line\r')).toEqual([]);
+      expect(assembler.push('\nnext')).toEqual(['line']);
+    });
+
+    it('should keep only the latest redraw of a pending line', () => {
+      const assembler = new LineAssembler();
+      assembler.push('⠋ Loading\r');
+      assembler.push('⠙ Loading\r');
+      assembler.push('⠹ Loading');
+      expect(assembler.flush()).toBe('⠹ Loading');
+    });
+  });
+
+  describe('flush', () => {
+    it('should return and clear the pending line', () => {
+      const assembler = new LineAssembler();
+      assembler.push('prompt> ');
+      expect(assembler.flush()).toBe('prompt> ');
+      expect(assembler.flush()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Collapse carriage-return overwrites in a line, keeping what was drawn last.
+ * Progress bars and spinners redraw the whole line after `\r`, so the last
+ * non-empty segment is what the terminal shows.
+ */
+export function collapseCarriageReturns(line: string): string {
+  const segments = line.split('\r');
+  for (let i = segments.length - 1; i >= 0; i--) {
+    if (segments[i] !== '') {
+      return segments[i];
+    }
+  }
+  return '';
+}
+
+/**
+ * Joins output chunks, which may end or start mid-line, into complete lines
+ */
+export class LineAssembler {
+  private partial = '';
+
+  /**
+   * Add a chunk of output
+   * @returns Lines completed by this chunk, without line terminators
+   */
+  push(chunk: string): string[] {
+    const parts = (this.partial + chunk).split('\n');
+    const partial = parts.pop() as string;
+
+    // Collapse overwrites of the pending line right away so that a spinner
+    // redrawing without ever printing a newline cannot grow it without bound.
+    // A trailing \r is kept since it may be the first half of \r\n.
+    this.partial = partial.endsWith('\r')
+      ? collapseCarriageReturns(partial.slice(0, -1)) + '\r'
+      : collapseCarriageReturns(partial);
+
+    return parts.map(collapseCarriageReturns);
+  }
+
+  /**
+   * Check whether an incomplete line is pending
+   */
+  hasPartial(): boolean {
+    return this.partial !== '';
+  }
+
+  /**
+   * Take the pending incomplete line, e.g. a prompt waiting for input
+   * @returns The pending line, or null if there is none
+   */
+  flush(): string | null {
+    if (!this.hasPartial()) {
+      return null;
+    }
+    const line = collapseCarriageReturns(this.partial);
+    this.partial = '';
+    return line;
+  }
+}
@@ -0,0 +1,132 @@
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LogEntry } from './command-runner';
+import { readArchivedLogs, RotatingLogWriter } from './log-file';
+
+const entry = (seq: number, plain: string, timestamp = Date.now()): LogEntry => ({
+  seq,
+  timestamp,
+  content: plain,
+  plain,
+  type: 'stdout',
+});
+
+describe('RotatingLogWriter', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'mcp-command-proxy-'));
+  });
+
+  afterEach(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should write entries as JSON lines', async () => {
+    const writer = new RotatingLogWriter('api', { directory });
+    writer.write(entry(1, 'hello'));
+    writer.write(entry(2, 'world'));
+    await writer.close();
+
+    const files = readdirSync(directory);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^api\.\d+\.jsonl$/);
+    const lines = readFileSync(join(directory, files[0]), 'utf8').trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).plain)).toEqual(['hello', 'world']);
+  });
+
+  it('should flush every entry, including those of rotated files, before close resolves', async () => {
+    const now = jest.spyOn(Date, 'now');
+    try {
+      const writer = new RotatingLogWriter('api', { directory, maxBytes: 50000 });
+      for (let i = 1; i <= 2000; i++) {
+        now.mockReturnValue(1000 + i);
+        writer.write(entry(i, `line ${i}`));
+      }
+      await writer.close();
+    } finally {
+      now.mockRestore();
+    }
+
+    const lines = readdirSync(directory).flatMap((file) => readFileSync(join(directory, file), 'utf8').trim().split('\n'));
+    expect(readdirSync(directory).length).toBeGreaterThan(1);
+    expect(lines).toHaveLength(2000);
+  });
+
+  it('should rotate by size and keep at most maxFiles files', async () => {
+    const now = jest.spyOn(Date, 'now');
+    try {
+      const writer = new RotatingLogWriter('api', { directory, maxBytes: 1, maxFiles: 2 });
+      for (let i = 1; i <= 4; i++) {
+        now.mockReturnValue(1000 * i);
+        writer.write(entry(i, `line ${i}`));
+      }
+      await writer.close();
+    } finally {
+      now.mockRestore();
+    }
+
+    expect(readdirSync(directory).sort()).toEqual(['api.3000.jsonl', 'api.4000.jsonl']);
+  });
+
+  it('should rotate by time', async () => {
+    const now = jest.spyOn(Date, 'now');
+    try {
+      const writer = new RotatingLogWriter('api', { directory, rotateInterval: 500 });
+      now.mockReturnValue(1000);
+      writer.write(entry(1, 'a'));
+      now.mockReturnValue(1200);
+      writer.write(entry(2, 'b'));
+      now.mockReturnValue(1500);
+      writer.write(entry(3, 'c'));
+      await writer.close();
+    } finally {
+      now.mockRestore();
+    }
+
+    expect(readdirSync(directory).sort()).toEqual(['api.1000.jsonl', 'api.1500.jsonl']);
+  });
+});
+
+describe('readArchivedLogs', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = mkdtempSync(join(tmpdir(), 'mcp-command-proxy-'));
+    const now = jest.spyOn(Date, 'now');
+    try {
+      const writer = new RotatingLogWriter('api', { directory, maxBytes: 1 });
+      for (let i = 1; i <= 5; i++) {
+        now.mockReturnValue(1000 * i);
+        writer.write(entry(i, i % 2 ? `odd ${i}` : `even ${i}`, 1000 * i));
+      }
+      await writer.close();
+      // Another process in the same directory must not be read
+      const other = new RotatingLogWriter('api.web', { directory });
+      other.write(entry(1, 'odd web', 3000));
+      await other.close();
+    } finally {
+      now.mockRestore();
+    }
+  });
+
+  afterAll(() => {
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should read entries across files in a time range', async () => {
+    const { entries } = await readArchivedLogs(directory, 'api', { since: 2000, until: 4000 });
+    expect(entries.map((e) => e.seq)).toEqual([2, 3, 4]);
+  });
+
+  it('should filter by pattern and keep the most recent matches', async () => {
+    const result = await readArchivedLogs(directory, 'api', { pattern: /odd/, limit: 2 });
+    expect(result.totalMatches).toBe(3);
+    expect(result.entries.map((e) => e.plain)).toEqual(['odd 3', 'odd 5']);
+  });
+
+  it('should return nothing for a process without files', async () => {
+    expect(await readArchivedLogs(join(directory, 'missing'), 'api')).toEqual({ entries: [], totalMatches: 0 });
+  });
+});
@@ -0,0 +1,242 @@
+import { createReadStream, createWriteStream, mkdirSync, openSync, promises as fs, WriteStream } from 'fs';
+import { EventEmitter } from 'events';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { LogEntry } from './command-runner.js';
+import { CircularBuffer } from './buffer.js';
+import { escapeRegExp } from './log-search.js';
+
+/**
+ * Options for writing logs to rotating files
+ */
+export interface LogFileOptions {
+  directory: string;
+  /** Rotate when the current file grows beyond this many bytes (default: 10 MiB) */
+  maxBytes?: number;
+  /** Rotate when the current file is older than this many milliseconds (default: 1 day) */
+  rotateInterval?: number;
+  /** Number of files to keep per process, including the current one (default: 10) */
+  maxFiles?: number;
+  /** Delete files whose entries are all older than this many milliseconds (default: keep) */
+  maxAge?: number;
+}
+
+/**
+ * Options for reading archived logs
+ */
+export interface ArchiveQuery {
+  since?: number;
+  until?: number;
+  pattern?: RegExp;
+  types?: Array<LogEntry['type']>;
+  /** Maximum number of entries to return, keeping the most recent (default: 1000) */
+  limit?: number;
+}
+
+/**
+ * Log file of a process, named after the time its first entry was written
+ */
+interface LogFile {
+  path: string;
+  startedAt: number;
+}
+
+/**
+ * List the log files of a process, oldest first
+ */
+async function listLogFiles(directory: string, name: string): Promise<LogFile[]> {
+  const pattern = new RegExp(`^${escapeRegExp(name)}\\.(\\d+)\\.jsonl$`);
+  let entries: string[];
+  try {
+    entries = await fs.readdir(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+
+  return entries
+    .map((entry) => ({ entry, match: pattern.exec(entry) }))
+    .filter(({ match }) => match !== null)
+    .map(({ entry, match }) => ({ path: join(directory, entry), startedAt: parseInt((match as RegExpExecArray)[1], 10) }))
+    .sort((a, b) => a.startedAt - b.startedAt);
+}
+
+/**
+ * End a file stream
+ * @returns Promise that resolves once everything written is flushed, or writing failed
+ */
+function endStream(stream: WriteStream): Promise<void> {
+  return new Promise((resolve) => stream.end(resolve));
+}
+
+/**
+ * Writes log entries of a process as JSON Lines to files that rotate by size
+ * and age, deleting old files according to the retention limits.
+ * Files are named `<process>.<start timestamp>.jsonl`.
+ */
+export class RotatingLogWriter extends EventEmitter {
+  private stream: WriteStream | null = null;
+  private current: LogFile | null = null;
+  private bytesWritten = 0;
+  private pruning: Promise<void> = Promise.resolve();
+  /** Flushing of the files ended by rotation */
+  private ending: Promise<void> = Promise.resolve();
+  private readonly directory: string;
+  private readonly maxBytes: number;
+  private readonly rotateInterval: number;
+  private readonly maxFiles: number;
+  private readonly maxAge: number | undefined;
+
+  /**
+   * Create a new log writer
+   * @param name Process name used as file name prefix
+   * @param options Rotation and retention options
+   */
+  constructor(
+    private readonly name: string,
+    options: LogFileOptions,
+  ) {
+    super();
+    this.directory = options.directory;
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.rotateInterval = options.rotateInterval ?? 24 * 60 * 60 * 1000;
+    this.maxFiles = options.maxFiles ?? 10;
+    this.maxAge = options.maxAge;
+    mkdirSync(this.directory, { recursive: true });
+  }
+
+  /**
+   * Append a log entry, rotating the file first if needed
+   */
+  write(entry: LogEntry): void {
+    const line = JSON.stringify(entry) + '\n';
+    const now = Date.now();
+
+    if (
+      !this.stream ||
+      !this.current ||
+      this.bytesWritten >= this.maxBytes ||
+      now - this.current.startedAt >= this.rotateInterval
+    ) {
+      this.rotate(now);
+    }
+
+    this.bytesWritten += Buffer.byteLength(line);
+    this.stream?.write(line);
+  }
+
+  /**
+   * Close the current file
+   * @returns Promise that resolves once all entries are flushed and pruning is done
+   */
+  async close(): Promise<void> {
+    const stream = this.stream;
+    this.stream = null;
+    this.current = null;
+    if (stream) {
+      await endStream(stream);
+    }
+    await this.ending;
+    await this.pruning;
+  }
+
+  /**
+   * Start a new file and prune old ones
+   */
+  private rotate(now: number): void {
+    const previous = this.stream;
+    if (previous) {
+      this.ending = Promise.all([this.ending, endStream(previous)]).then(() => undefined);
+    }
+
+    this.stream = null;
+    this.current = { path: join(this.directory, `${this.name}.${now}.jsonl`), startedAt: now };
+    this.bytesWritten = 0;
+
+    let fd: number;
+    try {
+      // Open synchronously so that the new file is already listed when pruning
+      fd = openSync(this.current.path, 'a');
+    } catch (error) {
+      this.emit('error', error);
+      return;
+    }
+    this.stream = createWriteStream(this.current.path, { fd });
+    this.stream.on('error', (error) => this.emit('error', error));
+
+    this.pruning = this.pruning.then(() => this.prune(now)).catch((error) => {
+      this.emit('error', error);
+    });
+  }
+
+  /**
+   * Delete files beyond the retention limits, never the current one
+   */
+  private async prune(now: number): Promise<void> {
+    const files = await listLogFiles(this.directory, this.name);
+    const expired = files.filter((file, index) => {
+      if (file.path === this.current?.path) {
+        return false;
+      }
+      if (index < files.length - this.maxFiles) {
+        return true;
+      }
+      // A file holds entries up to the time the next one was started
+      const endedAt = index + 1 < files.length ? files[index + 1].startedAt : now;
+      return this.maxAge !== undefined && now - endedAt > this.maxAge;
+    });
+
+    await Promise.all(expired.map((file) => fs.unlink(file.path)));
+  }
+}
+
+/**
+ * Read archived log entries of a process from its log files
+ * @returns Matching entries, oldest first, and the total number of matches
+ */
+export async function readArchivedLogs(
+  directory: string,
+  name: string,
+  query: ArchiveQuery = {},
+): Promise<{ entries: LogEntry[]; totalMatches: number }> {
+  const { since, until, pattern, types, limit = 1000 } = query;
+  const files = await listLogFiles(directory, name);
+  // Keep only the most recent matches
+  const entries = new CircularBuffer<LogEntry>(limit);
+  let totalMatches = 0;
+
+  for (let i = 0; i < files.length; i++) {
+    // Skip files that cannot contain entries in the time range
+    const endedAt = i + 1 < files.length ? files[i + 1].startedAt : Infinity;
+    if ((since !== undefined && endedAt < since) || (until !== undefined && files[i].startedAt > until)) {
+      continue;
+    }
+
+    const lines = createInterface({ input: createReadStream(files[i].path), crlfDelay: Infinity });
+    for await (const line of lines) {
+      let entry: LogEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        // Skip a partially written last line
+        continue;
+      }
+
+      if (
+        (since !== undefined && entry.timestamp < since) ||
+        (until !== undefined && entry.timestamp > until) ||
+        (types && !types.includes(entry.type)) ||
+        (pattern && !pattern.test(entry.plain))
+      ) {
+        continue;
+      }
+
+      totalMatches++;
+      entries.push(entry);
+    }
+  }
+
+  return { entries: entries.getAll(), totalMatches };
+}
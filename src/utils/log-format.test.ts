@@ -0,0 +1,83 @@
+import { LogEntry } from './command-runner';
+import { collapseRepeats, formatAge, formatLogs } from './log-format';
+
+const entry = (seq: number, plain: string, type: LogEntry['type'] = 'stdout'): LogEntry => ({
+  seq,
+  timestamp: seq * 1000,
+  content: `\x1b[32m${plain}\x1b[0m`,
+  plain,
+  type,
+});
+
+const entries = [
+  entry(1, 'Starting Metro Bundler', 'system'),
+  entry(2, 'Waiting on http://localhost:8081'),
+  entry(3, 'Waiting on http://localhost:8081'),
+  entry(4, 'Waiting on http://localhost:8081'),
+  entry(5, 'Warning: each child should have a unique key', 'stderr'),
+];
+
+describe('formatLogs', () => {
+  it('should render JSON by default', () => {
+    expect(JSON.parse(formatLogs(entries.slice(0, 2)))).toEqual([
+      { seq: 1, timestamp: 1000, type: 'system', content: 'Starting Metro Bundler' },
+      { seq: 2, timestamp: 2000, type: 'stdout', content: 'Waiting on http://localhost:8081' },
+    ]);
+    expect(JSON.parse(formatLogs(entries.slice(0, 1), { format: 'raw' }))[0].content).toBe(entries[0].content);
+  });
+
+  it('should render one line per entry as text', () => {
+    expect(formatLogs(entries.slice(0, 2), { output: 'text' })).toBe(
+      '1970-01-01T00:00:01.000Z [system] Starting Metro Bundler\n' +
+        '1970-01-01T00:00:02.000Z [stdout] Waiting on http://localhost:8081',
+    );
+  });
+
+  it('should render ages and tag only non-stdout entries in the compact output', () => {
+    expect(formatLogs(entries.slice(3), { output: 'compact', now: 6500 })).toBe(
+      '-2.5s Waiting on http://localhost:8081\n-1.5s [stderr] Warning: each child should have a unique key',
+    );
+  });
+
+  it('should collapse repeated consecutive lines', () => {
+    expect(formatLogs(entries, { output: 'compact', dedupe: true, now: 5000 }).split('\n')).toEqual([
+      '-4.0s [system] Starting Metro Bundler',
+      '-1.0s Waiting on http://localhost:8081 ×3',
+      '-0.0s [stderr] Warning: each child should have a unique key',
+    ]);
+    expect(JSON.parse(formatLogs(entries, { dedupe: true }))[1]).toEqual(expect.objectContaining({ seq: 4, count: 3 }));
+  });
+
+  it('should leave out the oldest entries to stay within the character budget', () => {
+    const text = formatLogs(entries, { output: 'text', maxChars: 180 });
+    expect(text.length).toBeLessThanOrEqual(180);
+    expect(text.split('\n')).toEqual([
+      '… 3 earlier entries omitted',
+      '1970-01-01T00:00:04.000Z [stdout] Waiting on http://localhost:8081',
+      expect.stringContaining('unique key'),
+    ]);
+
+    const json = formatLogs(entries, { maxChars: 220 });
+    expect(json.length).toBeLessThanOrEqual(220);
+    expect(JSON.parse(json).map((item: { seq?: number; omitted?: number }) => item.seq ?? item.omitted)).toEqual([3, 4, 5]);
+  });
+
+  it('should not truncate output within the budget', () => {
+    expect(formatLogs(entries, { output: 'text', maxChars: 10000 })).not.toContain('omitted');
+  });
+});
+
+describe('collapseRepeats', () => {
+  it('should only collapse lines of the same type', () => {
+    const runs = collapseRepeats([entry(1, 'done'), entry(2, 'done', 'stderr'), entry(3, 'done', 'stderr')]);
+    expect(runs.map(({ entry: { seq }, count }) => [seq, count])).toEqual([[1, 1], [3, 2]]);
+  });
+});
+
+describe('formatAge', () => {
+  it('should format seconds, minutes and hours', () => {
+    expect(formatAge(4200)).toBe('-4.2s');
+    expect(formatAge(185000)).toBe('-3m05s');
+    expect(formatAge(7800000)).toBe('-2h10m');
+  });
+});
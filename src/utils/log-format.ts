@@ -0,0 +1,136 @@
+import { LogEntry } from './command-runner.js';
+
+/**
+ * How log entries are rendered for a client
+ * - `json`: array of entry objects
+ * - `text`: one line per entry with its time and type
+ * - `compact`: one line per entry with its age, tagging only non-stdout entries
+ */
+export type LogOutput = 'json' | 'text' | 'compact';
+
+/**
+ * All supported log outputs
+ */
+export const LOG_OUTPUTS: readonly LogOutput[] = ['json', 'text', 'compact'];
+
+/**
+ * Options for rendering log entries
+ */
+export interface LogOutputOptions {
+  output?: LogOutput;
+  /** Keep ANSI escape sequences (raw) or strip them (plain) (default: plain) */
+  format?: 'raw' | 'plain';
+  /** Maximum length of the result; the oldest entries are left out first */
+  maxChars?: number;
+  /** Collapse repeated consecutive lines into one with a repeat count */
+  dedupe?: boolean;
+  /** Reference time of the relative timestamps of the compact output (default: now) */
+  now?: number;
+}
+
+/**
+ * Log entry followed by identical lines
+ */
+export interface RepeatedEntry {
+  entry: LogEntry;
+  count: number;
+}
+
+/**
+ * Present a log entry with either its raw or its ANSI-stripped text
+ */
+export function presentLog(entry: LogEntry, format: 'raw' | 'plain'): Pick<LogEntry, 'seq' | 'timestamp' | 'type' | 'content'> {
+  return {
+    seq: entry.seq,
+    timestamp: entry.timestamp,
+    type: entry.type,
+    content: format === 'raw' ? entry.content : entry.plain,
+  };
+}
+
+/**
+ * Collapse runs of consecutive entries with the same type and text, keeping the last entry of each run
+ */
+export function collapseRepeats(entries: LogEntry[]): RepeatedEntry[] {
+  const runs: RepeatedEntry[] = [];
+  for (const entry of entries) {
+    const last = runs[runs.length - 1];
+    if (last && last.entry.type === entry.type && last.entry.plain === entry.plain) {
+      runs[runs.length - 1] = { entry, count: last.count + 1 };
+    } else {
+      runs.push({ entry, count: 1 });
+    }
+  }
+  return runs;
+}
+
+/**
+ * Format the age of an entry, e.g. `-4.2s`, `-3m05s` or `-2h10m`
+ */
+export function formatAge(milliseconds: number): string {
+  const seconds = Math.max(0, milliseconds) / 1000;
+  if (seconds < 60) {
+    return `-${seconds.toFixed(1)}s`;
+  }
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) {
+    return `-${minutes}m${String(Math.floor(seconds % 60)).padStart(2, '0')}s`;
+  }
+  return `-${Math.floor(minutes / 60)}h${String(minutes % 60).padStart(2, '0')}m`;
+}
+
+/**
+ * Render one entry, or a run of repeated entries
+ */
+function renderEntry({ entry, count }: RepeatedEntry, output: LogOutput, format: 'raw' | 'plain', now: number): string {
+  const content = format === 'raw' ? entry.content : entry.plain;
+  const repeats = count > 1 ? ` ×${count}` : '';
+  if (output === 'json') {
+    return JSON.stringify(count > 1 ? { ...presentLog(entry, format), count } : presentLog(entry, format));
+  }
+  if (output === 'text') {
+    return `${new Date(entry.timestamp).toISOString()} [${entry.type}] ${content}${repeats}`;
+  }
+  return `${formatAge(now - entry.timestamp)} ${entry.type === 'stdout' ? '' : `[${entry.type}] `}${content}${repeats}`;
+}
+
+/**
+ * Marker that replaces the entries left out to stay within the character budget
+ */
+function omittedMarker(omitted: number, output: LogOutput): string {
+  return output === 'json' ? JSON.stringify({ omitted }) : `… ${omitted} earlier entries omitted`;
+}
+
+/**
+ * Join rendered entries into the result
+ */
+function joinEntries(items: string[], output: LogOutput): string {
+  return output === 'json' ? `[${items.join(',')}]` : items.join('\n');
+}
+
+/**
+ * Render log entries, oldest first, for a client
+ */
+export function formatLogs(entries: LogEntry[], options: LogOutputOptions = {}): string {
+  const { output = 'json', format = 'plain', maxChars, dedupe = false, now = Date.now() } = options;
+  const runs = dedupe ? collapseRepeats(entries) : entries.map((entry) => ({ entry, count: 1 }));
+  const items = runs.map((run) => renderEntry(run, output, format, now));
+  if (maxChars === undefined || joinEntries(items, output).length <= maxChars) {
+    return joinEntries(items, output);
+  }
+
+  // Keep the newest entries that fit next to the marker for the others
+  const wrapperLength = output === 'json' ? 2 : 0;
+  let start = items.length;
+  let length = wrapperLength;
+  while (start > 0) {
+    const next = length + items[start - 1].length + 1;
+    if (next + omittedMarker(start - 1, output).length > maxChars) {
+      break;
+    }
+    length = next;
+    start--;
+  }
+
+  return joinEntries([omittedMarker(start, output), ...items.slice(start)], output);
+}
@@ -0,0 +1,75 @@
+import { LogEntry } from './command-runner';
+import { compilePattern, searchLogs, toTimestamp } from './log-search';
+
+const entry = (seq: number, plain: string, type: LogEntry['type'] = 'stdout'): LogEntry => ({
+  seq,
+  timestamp: seq * 1000,
+  content: plain,
+  plain,
+  type,
+});
+
+const entries = [
+  entry(1, 'Starting Metro Bundler'),
+  entry(2, 'TypeError: undefined is not a function'),
+  entry(3, '    at App (App.tsx:10:5)'),
+  entry(4, 'Bundling complete', 'system'),
+  entry(5, 'typeerror again'),
+];
+
+describe('searchLogs', () => {
+  it('should match substrings case-insensitively by default', () => {
+    const result = searchLogs(entries, { pattern: 'TypeError' });
+    expect(result.totalMatches).toBe(2);
+    expect(result.matches.map((m) => m.seq)).toEqual([2, 5]);
+  });
+
+  it('should respect case sensitivity', () => {
+    const result = searchLogs(entries, { pattern: 'TypeError', caseSensitive: true });
+    expect(result.matches.map((m) => m.seq)).toEqual([2]);
+  });
+
+  it('should treat the pattern literally unless regex is set', () => {
+    expect(searchLogs(entries, { pattern: 'App.tsx:\\d+' }).totalMatches).toBe(0);
+    expect(searchLogs(entries, { pattern: 'App.tsx:\\d+', regex: true }).totalMatches).toBe(1);
+  });
+
+  it('should filter by time range', () => {
+    const result = searchLogs(entries, { pattern: 'a', since: 2000, until: 3000 });
+    expect(result.matches.map((m) => m.seq)).toEqual([2, 3]);
+  });
+
+  it('should include surrounding context', () => {
+    const [match] = searchLogs(entries, { pattern: 'TypeError:', context: 1 }).matches;
+    expect(match.before).toEqual([{ seq: 1, content: 'Starting Metro Bundler' }]);
+    expect(match.after).toEqual([{ seq: 3, content: '    at App (App.tsx:10:5)' }]);
+  });
+
+  it('should filter by type', () => {
+    const result = searchLogs(entries, { pattern: 'bundl', types: ['system'] });
+    expect(result.matches.map((m) => m.seq)).toEqual([4]);
+  });
+
+  it('should keep the most recent matches up to the limit', () => {
+    const result = searchLogs(entries, { pattern: 'typeerror', limit: 1 });
+    expect(result.totalMatches).toBe(2);
+    expect(result.matches.map((m) => m.seq)).toEqual([5]);
+  });
+});
+
+describe('compilePattern', () => {
+  it('should reject invalid regular expressions', () => {
+    expect(() => compilePattern('(', true)).toThrow('Invalid regular expression');
+  });
+});
+
+describe('toTimestamp', () => {
+  it('should accept numbers and date strings', () => {
+    expect(toTimestamp(42)).toBe(42);
+    expect(toTimestamp('2025-01-01T00:00:00Z')).toBe(Date.UTC(2025, 0, 1));
+  });
+
+  it('should reject invalid dates', () => {
+    expect(() => toTimestamp('yesterday-ish')).toThrow('Invalid date');
+  });
+});
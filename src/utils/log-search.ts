@@ -0,0 +1,120 @@
+import { LogEntry } from './command-runner.js';
+
+/**
+ * Options for searching log entries
+ */
+export interface LogSearchOptions {
+  pattern: string;
+  /** Treat the pattern as a regular expression instead of a substring */
+  regex?: boolean;
+  caseSensitive?: boolean;
+  /** Only match entries at or after this timestamp (ms since epoch) */
+  since?: number;
+  /** Only match entries at or before this timestamp (ms since epoch) */
+  until?: number;
+  /** Number of entries of context to include before and after each match */
+  context?: number;
+  types?: Array<LogEntry['type']>;
+  /** Maximum number of matches to return, keeping the most recent (default: 50) */
+  limit?: number;
+}
+
+/**
+ * Entry shown as context around a match
+ */
+export interface LogContextLine {
+  seq: number;
+  content: string;
+}
+
+/**
+ * Log entry matching a search
+ */
+export interface LogMatch {
+  seq: number;
+  timestamp: number;
+  type: LogEntry['type'];
+  content: string;
+  before: LogContextLine[];
+  after: LogContextLine[];
+}
+
+/**
+ * Result of a log search
+ */
+export interface LogSearchResult {
+  matches: LogMatch[];
+  totalMatches: number;
+}
+
+/**
+ * Escape a string for literal use in a regular expression
+ */
+export function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile a search pattern
+ * @throws Error if the pattern is not a valid regular expression
+ */
+export function compilePattern(pattern: string, regex = false, caseSensitive = false): RegExp {
+  try {
+    return new RegExp(regex ? pattern : escapeRegExp(pattern), caseSensitive ? '' : 'i');
+  } catch (error) {
+    throw new Error(`Invalid regular expression: ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Convert a timestamp given as milliseconds since epoch or as a date string
+ * @throws Error if the date string cannot be parsed
+ */
+export function toTimestamp(value: number | string): number {
+  if (typeof value === 'number') {
+    return value;
+  }
+  const timestamp = Date.parse(value);
+  if (isNaN(timestamp)) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return timestamp;
+}
+
+/**
+ * Search the ANSI-stripped text of log entries
+ * @throws Error if the pattern is not a valid regular expression
+ */
+export function searchLogs(entries: LogEntry[], options: LogSearchOptions): LogSearchResult {
+  const { since, until, context = 0, types, limit = 50 } = options;
+  const pattern = compilePattern(options.pattern, options.regex, options.caseSensitive);
+  const candidates = types ? entries.filter((entry) => types.includes(entry.type)) : entries;
+  const toContext = (entry: LogEntry): LogContextLine => ({ seq: entry.seq, content: entry.plain });
+
+  const matchIndexes: number[] = [];
+  candidates.forEach((entry, index) => {
+    if (since !== undefined && entry.timestamp < since) {
+      return;
+    }
+    if (until !== undefined && entry.timestamp > until) {
+      return;
+    }
+    if (pattern.test(entry.plain)) {
+      matchIndexes.push(index);
+    }
+  });
+
+  const matches = matchIndexes.slice(-limit).map((index) => {
+    const entry = candidates[index];
+    return {
+      seq: entry.seq,
+      timestamp: entry.timestamp,
+      type: entry.type,
+      content: entry.plain,
+      before: candidates.slice(Math.max(index - context, 0), index).map(toContext),
+      after: candidates.slice(index + 1, index + 1 + context).map(toContext),
+    };
+  });
+
+  return { matches, totalMatches: matchIndexes.length };
+}
@@ -0,0 +1,68 @@
+import { ToolPolicy } from './policy';
+
+describe('ToolPolicy', () => {
+  it('should allow everything without options', () => {
+    const policy = new ToolPolicy();
+
+    expect(policy.isEnabled('sendKeyPress')).toBe(true);
+    expect(policy.isEnabled('stopProcess')).toBe(true);
+    expect(() => policy.checkInput('sendKeyPress', { key: 'ctrl+c' })).not.toThrow();
+  });
+
+  it('should disable input and control tools in read-only mode', () => {
+    const policy = new ToolPolicy({ readOnly: true, enabledTools: ['restartProcess'] });
+
+    expect(['sendKeyPress', 'sendKeys', 'sendText', 'closeStdin', 'resizeTerminal', 'stopProcess'].filter((tool) => policy.isEnabled(tool))).toEqual([]);
+    expect(policy.isEnabled('getRecentLogs')).toBe(true);
+    expect(policy.isEnabled('restartProcess')).toBe(true);
+  });
+
+  it('should not register disabled tools, even when enabled', () => {
+    const policy = new ToolPolicy({ enabledTools: ['searchLogs'], disabledTools: ['searchLogs', 'sendText'] });
+
+    expect(policy.isEnabled('searchLogs')).toBe(false);
+    expect(policy.isEnabled('sendText')).toBe(false);
+    expect(policy.isEnabled('sendKeys')).toBe(true);
+  });
+
+  it('should only allow input on the allow-list, compared as sent to the terminal', () => {
+    const policy = new ToolPolicy({ allowedInput: ['r', 'enter', 'ctrl+r', 'npm test'] });
+
+    expect(() => policy.checkInput('sendKeyPress', { key: 'Enter' })).not.toThrow();
+    expect(() => policy.checkInput('sendKeys', { keys: ['ctrl+r', 'r', 'return'] })).not.toThrow();
+    expect(() => policy.checkInput('sendText', { text: 'npm test', submit: true })).not.toThrow();
+    expect(() => policy.checkInput('sendText', { text: '\x12' })).not.toThrow();
+
+    expect(() => policy.checkInput('sendKeyPress', { key: 'ctrl+c' })).toThrow('Input "ctrl+c" is not allowed by the input policy');
+    expect(() => policy.checkInput('sendKeys', { keys: ['r', 'q'] })).toThrow('Input "q" is not allowed');
+    expect(() => policy.checkInput('sendText', { text: '\x03' })).toThrow('is not allowed');
+    expect(() => policy.checkInput('sendText', { text: 'npm' })).toThrow('Input "npm" is not allowed');
+  });
+
+  it('should treat closing stdin as sending ctrl+d', () => {
+    expect(() => new ToolPolicy({ allowedInput: ['y'] }).checkInput('closeStdin', {})).toThrow('Input "ctrl+d" is not allowed');
+    expect(() => new ToolPolicy({ allowedInput: ['ctrl+d'] }).checkInput('closeStdin', {})).not.toThrow();
+  });
+
+  it('should require enter to be allowed for submitted text', () => {
+    const policy = new ToolPolicy({ allowedInput: ['y'] });
+
+    expect(() => policy.checkInput('sendText', { text: 'y' })).not.toThrow();
+    expect(() => policy.checkInput('sendText', { text: 'y', submit: true })).toThrow('Input "enter" is not allowed');
+  });
+
+  it('should reject input before the callback runs', async () => {
+    const policy = new ToolPolicy({ allowedInput: [] });
+    const callback = jest.fn();
+    const sendKeyPress = policy.wrap('sendKeyPress', callback);
+
+    await expect(sendKeyPress({ key: 'ctrl+c' }, {})).rejects.toThrow('is not allowed');
+    expect(callback).not.toHaveBeenCalled();
+  });
+
+  it('should report tools it names that do not exist', () => {
+    const policy = new ToolPolicy({ enabledTools: ['sendKeys', 'sendKey'], disabledTools: ['sendKey', 'stopProces'] });
+
+    expect(policy.unknownTools(['sendKeys', 'stopProcess'])).toEqual(['sendKey', 'stopProces']);
+  });
+});
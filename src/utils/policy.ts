@@ -0,0 +1,139 @@
+import { encodeKey } from './keys.js';
+
+/**
+ * Tools that send input to a command
+ */
+export const INPUT_TOOLS: readonly string[] = ['sendKeyPress', 'sendKeys', 'sendText', 'closeStdin'];
+
+/**
+ * Tools that start, stop or otherwise change a command
+ */
+export const CONTROL_TOOLS: readonly string[] = ['startProcess', 'stopProcess', 'restartProcess', 'resizeTerminal'];
+
+/**
+ * Options restricting what MCP clients may do
+ */
+export interface ToolPolicyOptions {
+  /** Disable all input and control tools */
+  readOnly?: boolean;
+  /**
+   * Keys and texts that may be sent, e.g. `y`, `enter` or `ctrl+r`. Entries are key
+   * names as accepted by sendKeyPress, or else literal text. When set, all other
+   * input is rejected. Closing stdin counts as sending `ctrl+d`.
+   */
+  allowedInput?: string[];
+  /** Tools registered even in read-only mode */
+  enabledTools?: string[];
+  /** Tools that are not registered at all */
+  disabledTools?: string[];
+}
+
+/**
+ * Input a tool call sends, as given by the client and as sent to the terminal
+ */
+interface Input {
+  input: string;
+  sequence: string;
+}
+
+/**
+ * Get the bytes an allow-list entry stands for
+ */
+function toSequence(entry: string): string {
+  try {
+    return encodeKey(entry);
+  } catch {
+    return entry;
+  }
+}
+
+/**
+ * Get the input sent by a call of an input tool
+ */
+function inputOf(tool: string, args: Record<string, unknown>): Input[] {
+  switch (tool) {
+    case 'sendKeyPress':
+      return [{ input: String(args.key), sequence: encodeKey(String(args.key)) }];
+    case 'sendKeys':
+      return (args.keys as string[]).map((key) => ({ input: key, sequence: encodeKey(key) }));
+    case 'sendText':
+      return [
+        { input: String(args.text), sequence: String(args.text) },
+        ...(args.submit ? [{ input: 'enter', sequence: '\r' }] : []),
+      ];
+    case 'closeStdin':
+      // End-of-file, which ctrl+d sends in a pseudo-terminal
+      return [{ input: 'ctrl+d', sequence: '\x04' }];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Decides which tools are registered on an MCP server and which input the
+ * input tools may send. Input is compared by the bytes sent to the terminal,
+ * so that an allowed `ctrl+c` key is also allowed when typed as text.
+ */
+export class ToolPolicy {
+  private readonly allowedSequences: Set<string> | null;
+
+  /**
+   * Create a new policy
+   * @param options Restrictions; without any, everything is allowed
+   */
+  constructor(private readonly options: ToolPolicyOptions = {}) {
+    this.allowedSequences = options.allowedInput ? new Set(options.allowedInput.map(toSequence)) : null;
+  }
+
+  /**
+   * Check whether a tool should be registered
+   */
+  isEnabled(tool: string): boolean {
+    const { readOnly = false, enabledTools = [], disabledTools = [] } = this.options;
+    if (disabledTools.includes(tool)) {
+      return false;
+    }
+    if (enabledTools.includes(tool)) {
+      return true;
+    }
+    return !readOnly || !(INPUT_TOOLS.includes(tool) || CONTROL_TOOLS.includes(tool));
+  }
+
+  /**
+   * Get the tools named by the policy that are not among the given tools, e.g. misspelled names
+   */
+  unknownTools(tools: Iterable<string>): string[] {
+    const known = new Set(tools);
+    const named = [...(this.options.enabledTools || []), ...(this.options.disabledTools || [])];
+    return named.filter((tool, index) => !known.has(tool) && named.indexOf(tool) === index);
+  }
+
+  /**
+   * Check that a tool call only sends allowed input
+   * @throws Error naming the first input that is not allowed
+   */
+  checkInput(tool: string, args: Record<string, unknown>): void {
+    if (!this.allowedSequences) {
+      return;
+    }
+    for (const { input, sequence } of inputOf(tool, args)) {
+      if (!this.allowedSequences.has(sequence)) {
+        throw new Error(`Input ${JSON.stringify(input)} is not allowed by the input policy`);
+      }
+    }
+  }
+
+  /**
+   * Wrap a tool callback so that calls sending input that is not allowed are
+   * rejected before the callback runs
+   */
+  wrap<A extends Record<string, unknown>, E, R>(
+    tool: string,
+    callback: (args: A, extra: E) => R | Promise<R>,
+  ): (args: A, extra: E) => Promise<R> {
+    return async (args, extra) => {
+      this.checkInput(tool, args ?? {});
+      return callback(args, extra);
+    };
+  }
+}
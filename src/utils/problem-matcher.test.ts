@@ -0,0 +1,187 @@
+import { ProblemTracker } from './problem-matcher';
+
+describe('ProblemTracker', () => {
+  let tracker: ProblemTracker;
+
+  const addLines = (lines: string[]): void => {
+    lines.forEach((line) => tracker.add(line, 1000));
+  };
+
+  beforeEach(() => {
+    tracker = new ProblemTracker();
+  });
+
+  describe('TypeScript', () => {
+    it('should match errors in both output formats', () => {
+      addLines([
+        "src/index.ts(10,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+        "src/app.ts:3:7 - error TS2304: Cannot find name 'foo'.",
+      ]);
+
+      expect(tracker.getProblems()).toEqual([
+        {
+          matcher: 'typescript',
+          severity: 'error',
+          message: "Type 'string' is not assignable to type 'number'.",
+          file: 'src/index.ts',
+          line: 10,
+          column: 5,
+          code: 'TS2322',
+          timestamp: 1000,
+        },
+        expect.objectContaining({ file: 'src/app.ts', line: 3, column: 7, code: 'TS2304' }),
+      ]);
+    });
+
+    it('should replace problems when a new compilation starts and clear them on success', () => {
+      addLines([
+        'Starting compilation in watch mode...',
+        "src/index.ts(10,5): error TS2322: Type 'string' is not assignable to type 'number'.",
+        "src/app.ts(3,7): error TS2304: Cannot find name 'foo'.",
+        'Found 2 errors. Watching for file changes.',
+        'File change detected. Starting incremental compilation...',
+        "src/app.ts(3,7): error TS2304: Cannot find name 'foo'.",
+        'Found 1 error. Watching for file changes.',
+      ]);
+      expect(tracker.getProblems().map(({ file }) => file)).toEqual(['src/app.ts']);
+
+      addLines([
+        'File change detected. Starting incremental compilation...',
+        'Found 0 errors. Watching for file changes.',
+      ]);
+      expect(tracker.getProblems()).toEqual([]);
+    });
+  });
+
+  describe('ESLint', () => {
+    it('should take the file of problems from the preceding file line', () => {
+      addLines([
+        '/app/src/index.ts',
+        "  10:5  error    'foo' is assigned a value but never used  @typescript-eslint/no-unused-vars",
+        '  12:1  warning  Unexpected console statement              no-console',
+        '',
+        '✖ 2 problems (1 error, 1 warning)',
+      ]);
+
+      expect(tracker.getProblems()).toEqual([
+        expect.objectContaining({
+          matcher: 'eslint',
+          severity: 'error',
+          message: "'foo' is assigned a value but never used",
+          file: '/app/src/index.ts',
+          line: 10,
+          column: 5,
+          code: '@typescript-eslint/no-unused-vars',
+        }),
+        expect.objectContaining({ severity: 'warning', line: 12, code: 'no-console' }),
+      ]);
+    });
+
+    it('should replace the problems of a file reported again', () => {
+      addLines(['/app/src/index.ts', "  10:5  error  'foo' is not defined  no-undef", '']);
+      addLines(['/app/src/index.ts', "  20:1  error  'bar' is not defined  no-undef", '']);
+      expect(tracker.getProblems().map(({ line }) => line)).toEqual([20]);
+    });
+  });
+
+  describe('Jest', () => {
+    it('should locate failed tests from the first stack frame outside of dependencies', () => {
+      addLines([
+        'FAIL src/sum.test.ts',
+        '  ● sum › adds numbers',
+        '',
+        '    expect(received).toBe(expected) // Object.is equality',
+        '',
+        '      at Object.toBe (node_modules/expect/build/index.js:10:3)',
+        '      at Object.<anonymous> (src/sum.test.ts:5:19)',
+        '',
+        'Tests:       1 failed, 3 passed, 4 total',
+      ]);
+
+      expect(tracker.getProblems()).toEqual([
+        expect.objectContaining({
+          matcher: 'jest',
+          message: 'sum › adds numbers',
+          file: 'src/sum.test.ts',
+          line: 5,
+          column: 19,
+        }),
+      ]);
+
+      addLines(['Tests:       4 passed, 4 total']);
+      expect(tracker.getProblems()).toEqual([]);
+    });
+
+    it('should merge failures repeated in the summary', () => {
+      const failure = ['  ● sum › adds numbers', '      at Object.<anonymous> (src/sum.test.ts:5:19)'];
+      addLines([...failure, 'Summary of all failing tests', ...failure]);
+      expect(tracker.getProblems()).toHaveLength(1);
+    });
+  });
+
+  describe('Node', () => {
+    it('should match uncaught errors with the location of their stack frame', () => {
+      addLines([
+        "TypeError: Cannot read properties of undefined (reading 'foo')",
+        '    at handler (file:///app/src/server.js:12:7)',
+        '    at node:internal/main/run_main_module:28:49',
+      ]);
+
+      expect(tracker.getProblems()).toEqual([
+        expect.objectContaining({
+          matcher: 'node',
+          message: "TypeError: Cannot read properties of undefined (reading 'foo')",
+          file: '/app/src/server.js',
+          line: 12,
+          column: 7,
+        }),
+      ]);
+    });
+  });
+
+  describe('webpack and Metro', () => {
+    it('should match webpack errors and clear them on a successful compilation', () => {
+      addLines(["ERROR in ./src/App.tsx 10:5-12", "Module not found: Error: Can't resolve './Foo'"]);
+      expect(tracker.getProblems()).toEqual([
+        expect.objectContaining({ matcher: 'webpack', severity: 'error', file: './src/App.tsx', line: 10, column: 5 }),
+      ]);
+
+      addLines(['webpack 5.90.0 compiled successfully in 120 ms']);
+      expect(tracker.getProblems()).toEqual([]);
+    });
+
+    it('should match Metro bundling errors and clear them once bundling succeeds', () => {
+      addLines([
+        'iOS Bundling failed 523ms index.js (1 module)',
+        'ERROR  SyntaxError: /app/App.js: Unexpected token (10:5)',
+      ]);
+      expect(tracker.getProblems()).toEqual([
+        expect.objectContaining({
+          matcher: 'metro',
+          message: 'SyntaxError: /app/App.js: Unexpected token (10:5)',
+          file: '/app/App.js',
+          line: 10,
+          column: 5,
+        }),
+      ]);
+
+      addLines(['iOS Bundled 312ms index.js (512 modules)']);
+      expect(tracker.getProblems()).toEqual([]);
+    });
+  });
+
+  it('should use custom matchers and keep at most the given number of problems', () => {
+    tracker = new ProblemTracker([{ name: 'custom', patterns: [/^WARN (?<message>.+)$/], severity: 'warning' }], 2);
+    addLines(['WARN one', 'WARN two', 'ERROR ignored', 'WARN three']);
+    expect(tracker.getProblems()).toEqual([
+      { matcher: 'custom', severity: 'warning', message: 'two', timestamp: 1000 },
+      { matcher: 'custom', severity: 'warning', message: 'three', timestamp: 1000 },
+    ]);
+  });
+
+  it('should clear all problems', () => {
+    addLines(["src/index.ts(10,5): error TS2322: Type 'string' is not assignable to type 'number'."]);
+    tracker.clear();
+    expect(tracker.getProblems()).toEqual([]);
+  });
+});
@@ -0,0 +1,276 @@
+/**
+ * Severity of a problem
+ */
+export type ProblemSeverity = 'error' | 'warning';
+
+/**
+ * Problem found in the output of a command, such as a compiler error
+ */
+export interface Problem {
+  /** Name of the matcher that found the problem */
+  matcher: string;
+  severity: ProblemSeverity;
+  message: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  /** Error code or lint rule, e.g. TS2322 or no-unused-vars */
+  code?: string;
+  /** Time the problem was last reported */
+  timestamp: number;
+}
+
+/**
+ * Describes how a tool reports problems in its output. Patterns are matched
+ * against single ANSI-stripped lines; the named groups `file`, `line`,
+ * `column`, `severity`, `code` and `message` are picked up where present.
+ */
+export interface ProblemMatcher {
+  name: string;
+  /** Lines reporting a problem. The whole line is the message if there is no message group */
+  patterns: RegExp[];
+  /** Severity of problems without a severity group (default: error) */
+  severity?: ProblemSeverity;
+  /**
+   * Line giving the location of a problem reported without one, e.g. a stack frame.
+   * It is looked for in the problem line itself and in the lines following it.
+   */
+  location?: RegExp;
+  /**
+   * Line naming the file of the problems reported after it, for tools that group
+   * problems by file. Problems found before in the same file are replaced.
+   */
+  file?: RegExp;
+  /** Line that starts a new build or run, clearing the problems of this matcher */
+  start?: RegExp;
+  /** Line that reports a successful build or run, clearing the problems of this matcher */
+  success?: RegExp;
+}
+
+/**
+ * Number of lines after a problem in which its location is looked for
+ */
+const LOCATION_LINES = 30;
+
+/**
+ * Stack frame outside of dependencies and Node internals, e.g. `at fn (/app/src/index.js:10:5)`
+ */
+const STACK_FRAME =
+  /^\s+at (?:.+ \()?(?:file:\/\/)?(?<file>(?!node:)(?![^\s()]*node_modules)[^\s()]+?):(?<line>\d+):(?<column>\d+)\)?$/;
+
+/**
+ * Matchers for common tools: TypeScript, ESLint, Jest, uncaught Node errors, webpack and Metro
+ */
+export const DEFAULT_PROBLEM_MATCHERS: ProblemMatcher[] = [
+  {
+    name: 'typescript',
+    patterns: [
+      // src/index.ts(10,5): error TS2322: Type 'string' is not assignable to type 'number'.
+      /^(?<file>[^\s(][^(]*)\((?<line>\d+),(?<column>\d+)\): (?<severity>error|warning) (?<code>TS\d+): (?<message>.+)$/,
+      // src/index.ts:10:5 - error TS2322: Type 'string' is not assignable to type 'number'.
+      /^(?<file>\S[^:]*):(?<line>\d+):(?<column>\d+) - (?<severity>error|warning) (?<code>TS\d+): (?<message>.+)$/,
+    ],
+    start: /Starting (?:incremental )?compilation/,
+    success: /Found 0 errors\b/,
+  },
+  {
+    name: 'eslint',
+    // 10:5  error  'foo' is assigned a value but never used  no-unused-vars
+    patterns: [/^\s+(?<line>\d+):(?<column>\d+)\s+(?<severity>error|warning)\s+(?<message>.+?)(?:\s{2,}(?<code>[@\w/-]+))?$/],
+    file: /^(?<file>(?:[A-Za-z]:\\|\/)\S+\.\w+)$/,
+  },
+  {
+    name: 'jest',
+    // ● Suite name › test name
+    patterns: [/^\s*● (?!Console$)(?<message>.+)$/],
+    location: STACK_FRAME,
+    success: /^Tests:(?!.*\bfailed\b).*\d+ total/,
+  },
+  {
+    name: 'node',
+    // TypeError: Cannot read properties of undefined (reading 'foo')
+    patterns: [/^(?:Uncaught )?(?<message>(?:[A-Z]\w*)?(?:Error|Exception)(?: \[[A-Z_]+\])?: .+)$/],
+    location: STACK_FRAME,
+  },
+  {
+    name: 'webpack',
+    // ERROR in ./src/App.tsx 10:5-12
+    patterns: [/^(?<severity>ERROR|WARNING) in (?<file>\S+?)(?::? (?<line>\d+):(?<column>\d+)(?:-\d+)?)?(?: (?<message>.+))?$/],
+    success: /compiled successfully/i,
+  },
+  {
+    name: 'metro',
+    // ERROR  SyntaxError: /app/App.js: Unexpected token (10:5)
+    // error: Error: Unable to resolve module ./Foo from /app/App.js: ...
+    patterns: [/^\s*(?:ERROR|error:)\s+(?<message>.+)$/],
+    location: /(?<file>\/[^\s:]+\.[cm]?[jt]sx?)(?::[^(]*\((?<line>\d+):(?<column>\d+)\))?/,
+    start: /\bBundling\b/,
+    success: /\bBundled \d+(?:\.\d+)?m?s\b|100\.0% \(\d+\/\d+\), done/,
+  },
+];
+
+/**
+ * Keeps the current problems of a command by matching its output lines against
+ * problem matchers. Reported problems are deduplicated, and a matcher's problems
+ * are cleared when its tool starts a new build or reports a successful one.
+ */
+export class ProblemTracker {
+  private problems = new Map<string, Problem>();
+  // Problem waiting for its location, with the number of lines left to find it in
+  private pending: { key: string; matcher: ProblemMatcher; linesLeft: number } | null = null;
+  // Current file of matchers that group problems by file
+  private files = new Map<ProblemMatcher, string>();
+
+  /**
+   * Create a new problem tracker
+   * @param matchers Matchers to apply, in order of precedence
+   * @param maxProblems Maximum number of problems to keep, dropping the oldest
+   */
+  constructor(
+    private readonly matchers: ProblemMatcher[] = DEFAULT_PROBLEM_MATCHERS,
+    private readonly maxProblems: number = 500,
+  ) {}
+
+  /**
+   * Match an output line
+   * @param line Line with ANSI escape sequences stripped
+   * @param timestamp Time the line was logged
+   */
+  add(line: string, timestamp: number = Date.now()): void {
+    for (const matcher of this.matchers) {
+      if (matcher.start?.test(line) || matcher.success?.test(line)) {
+        this.clear(matcher.name);
+      }
+    }
+
+    // Tools grouping problems by file end each group with a blank line
+    if (line.trim() === '') {
+      this.files.clear();
+      this.locatePending(line);
+      return;
+    }
+
+    for (const matcher of this.matchers) {
+      const file = matcher.file?.exec(line)?.groups?.file;
+      if (file) {
+        this.files.set(matcher, file);
+        this.deleteWhere((problem) => problem.matcher === matcher.name && problem.file === file);
+        return;
+      }
+
+      for (const pattern of matcher.patterns) {
+        const match = pattern.exec(line);
+        if (match) {
+          this.report(matcher, match.groups || {}, line, timestamp);
+          return;
+        }
+      }
+    }
+
+    this.locatePending(line);
+  }
+
+  /**
+   * Get the current problems, oldest first
+   */
+  getProblems(): Problem[] {
+    return Array.from(this.problems.values());
+  }
+
+  /**
+   * Remove all problems, or those found by one matcher
+   */
+  clear(matcher?: string): void {
+    if (matcher === undefined) {
+      this.problems.clear();
+      this.pending = null;
+      this.files.clear();
+      return;
+    }
+    this.deleteWhere((problem) => problem.matcher === matcher);
+  }
+
+  /**
+   * Record a problem from the groups of a matched line
+   */
+  private report(matcher: ProblemMatcher, groups: Record<string, string | undefined>, line: string, timestamp: number): void {
+    const problem: Problem = {
+      matcher: matcher.name,
+      severity: groups.severity ? (/^warn/i.test(groups.severity) ? 'warning' : 'error') : (matcher.severity ?? 'error'),
+      message: (groups.message || line).trim(),
+      timestamp,
+    };
+    const file = groups.file ?? this.files.get(matcher);
+    if (file) {
+      problem.file = file;
+    }
+    if (groups.line) {
+      problem.line = parseInt(groups.line, 10);
+    }
+    if (groups.column) {
+      problem.column = parseInt(groups.column, 10);
+    }
+    if (groups.code) {
+      problem.code = groups.code;
+    }
+
+    const key = this.keyOf(problem);
+    // Move a problem reported again to the end
+    this.problems.delete(key);
+    this.problems.set(key, problem);
+    if (this.problems.size > this.maxProblems) {
+      this.problems.delete(this.problems.keys().next().value as string);
+    }
+
+    this.pending = !problem.file && matcher.location ? { key, matcher, linesLeft: LOCATION_LINES } : null;
+    this.locatePending(line);
+  }
+
+  /**
+   * Fill in the location of the pending problem if the line gives it
+   */
+  private locatePending(line: string): void {
+    if (!this.pending) {
+      return;
+    }
+    const { key, matcher } = this.pending;
+    const groups = matcher.location?.exec(line)?.groups;
+    const problem = this.problems.get(key);
+    if (!problem || !groups?.file) {
+      if (!problem || --this.pending.linesLeft < 0) {
+        this.pending = null;
+      }
+      return;
+    }
+
+    this.pending = null;
+    const located: Problem = { ...problem, file: groups.file };
+    if (groups.line) {
+      located.line = parseInt(groups.line, 10);
+    }
+    if (groups.column) {
+      located.column = parseInt(groups.column, 10);
+    }
+    // Replace the problem under its new key, merging it with an identical one
+    this.problems.delete(key);
+    this.problems.set(this.keyOf(located), located);
+  }
+
+  /**
+   * Remove the problems matching a predicate
+   */
+  private deleteWhere(predicate: (problem: Problem) => boolean): void {
+    for (const [key, problem] of this.problems) {
+      if (predicate(problem)) {
+        this.problems.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Identity of a problem, used to deduplicate problems reported again
+   */
+  private keyOf(problem: Problem): string {
+    return JSON.stringify([problem.matcher, problem.file, problem.line, problem.column, problem.message]);
+  }
+}
@@ -0,0 +1,60 @@
+import { collectProcessTree, parseProcStat, parseVmRss, ProcStat, ResourceSampler } from './proc-stats';
+
+describe('parseProcStat', () => {
+  it('should parse pid, parent, cpu time and rss', () => {
+    const content =
+      '1234 (node) S 1200 1234 1234 34816 1234 4194304 5000 0 0 0 150 50 0 0 20 0 11 0 100000 1000000000 25000 18446744073709551615';
+    expect(parseProcStat(content)).toEqual({ pid: 1234, ppid: 1200, cpuTicks: 200, rssPages: 25000 });
+  });
+
+  it('should handle command names containing spaces and parentheses', () => {
+    const content =
+      '42 (my (weird) cmd) R 1 42 42 0 -1 4194304 10 0 0 0 3 4 0 0 20 0 1 0 100 2000 7 18446744073709551615';
+    expect(parseProcStat(content)).toEqual({ pid: 42, ppid: 1, cpuTicks: 7, rssPages: 7 });
+  });
+
+  it('should return null for malformed content', () => {
+    expect(parseProcStat('garbage')).toBeNull();
+  });
+});
+
+describe('parseVmRss', () => {
+  it('should read the resident set size in bytes', () => {
+    const content = 'Name:\tnode\nState:\tS (sleeping)\nVmHWM:\t  120000 kB\nVmRSS:\t  102400 kB\nRssAnon:\t   80000 kB\n';
+    expect(parseVmRss(content)).toBe(102400 * 1024);
+  });
+
+  it('should return null for processes without memory', () => {
+    expect(parseVmRss('Name:\tkthreadd\nState:\tS (sleeping)\n')).toBeNull();
+  });
+});
+
+describe('collectProcessTree', () => {
+  const stat = (pid: number, ppid: number): ProcStat => ({ pid, ppid, cpuTicks: 0, rssPages: 0 });
+
+  it('should collect a process and all of its descendants', () => {
+    const stats = [stat(1, 0), stat(10, 1), stat(11, 10), stat(12, 10), stat(20, 1), stat(13, 11)];
+    expect(collectProcessTree(stats, 10).map((s) => s.pid).sort()).toEqual([10, 11, 12, 13]);
+  });
+
+  it('should return an empty tree for an unknown process', () => {
+    expect(collectProcessTree([stat(1, 0)], 99)).toEqual([]);
+  });
+});
+
+describe('ResourceSampler', () => {
+  const linux = process.platform === 'linux' ? it : it.skip;
+
+  linux('should sample the current process', async () => {
+    const usage = await new ResourceSampler().sample(process.pid, Date.now() - 1000);
+    expect(usage).not.toBeNull();
+    expect(usage?.processCount).toBeGreaterThanOrEqual(1);
+    // Independent of the page size of the platform
+    expect(usage?.rssBytes).toBeGreaterThan(process.memoryUsage().rss / 2);
+    expect(usage?.cpuPercent).not.toBeNull();
+  });
+
+  it('should return null for a process that does not exist', async () => {
+    expect(await new ResourceSampler().sample(2 ** 30)).toBeNull();
+  });
+});
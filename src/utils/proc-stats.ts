@@ -0,0 +1,178 @@
+import { promises as fs } from 'fs';
+
+/**
+ * Clock ticks per second used by /proc (USER_HZ, 100 on virtually every Linux system)
+ */
+const CLOCK_TICKS = 100;
+
+/**
+ * Fields of interest from /proc/<pid>/stat
+ */
+export interface ProcStat {
+  pid: number;
+  ppid: number;
+  /** User plus system CPU time in clock ticks */
+  cpuTicks: number;
+  /** Resident set size in pages */
+  rssPages: number;
+}
+
+/**
+ * Resource usage of a process tree
+ */
+export interface ResourceUsage {
+  processCount: number;
+  rssBytes: number;
+  /** CPU usage since the previous sample, in percent of one core */
+  cpuPercent: number | null;
+}
+
+/**
+ * Parse the contents of /proc/<pid>/stat
+ * @returns The parsed fields, or null if the content is malformed
+ */
+export function parseProcStat(content: string): ProcStat | null {
+  // The command name is wrapped in parentheses and may itself contain spaces or parentheses
+  const open = content.indexOf('(');
+  const close = content.lastIndexOf(')');
+  if (open < 0 || close < open) {
+    return null;
+  }
+
+  const pid = parseInt(content.slice(0, open), 10);
+  // Fields after the command name, starting with field 3 (state)
+  const fields = content.slice(close + 2).split(' ');
+  const ppid = parseInt(fields[1], 10);
+  const utime = parseInt(fields[11], 10);
+  const stime = parseInt(fields[12], 10);
+  const rssPages = parseInt(fields[21], 10);
+
+  if ([pid, ppid, utime, stime, rssPages].some((value) => isNaN(value))) {
+    return null;
+  }
+
+  return { pid, ppid, cpuTicks: utime + stime, rssPages };
+}
+
+/**
+ * Parse the resident set size from the contents of /proc/<pid>/status, which
+ * unlike /proc/<pid>/stat reports it in kB rather than in pages of a
+ * platform-dependent size
+ * @returns The resident set size in bytes, or null for processes without memory (kernel threads, zombies)
+ */
+export function parseVmRss(content: string): number | null {
+  const match = /^VmRSS:\s*(\d+)\s*kB$/m.exec(content);
+  return match ? parseInt(match[1], 10) * 1024 : null;
+}
+
+/**
+ * Select a process and all of its descendants
+ */
+export function collectProcessTree(stats: ProcStat[], rootPid: number): ProcStat[] {
+  const children = new Map<number, ProcStat[]>();
+  for (const stat of stats) {
+    const siblings = children.get(stat.ppid) || [];
+    siblings.push(stat);
+    children.set(stat.ppid, siblings);
+  }
+
+  const root = stats.find((stat) => stat.pid === rootPid);
+  if (!root) {
+    return [];
+  }
+
+  const tree: ProcStat[] = [];
+  const queue = [root];
+  while (queue.length > 0) {
+    const stat = queue.shift() as ProcStat;
+    tree.push(stat);
+    queue.push(...(children.get(stat.pid) || []));
+  }
+  return tree;
+}
+
+/**
+ * Read /proc/<pid>/stat for every running process
+ */
+async function readAllProcStats(): Promise<ProcStat[]> {
+  const entries = await fs.readdir('/proc');
+  const stats = await Promise.all(
+    entries
+      .filter((entry) => /^\d+$/.test(entry))
+      .map(async (entry) => {
+        try {
+          return parseProcStat(await fs.readFile(`/proc/${entry}/stat`, 'utf8'));
+        } catch {
+          // The process exited while we were reading
+          return null;
+        }
+      }),
+  );
+  return stats.filter((stat): stat is ProcStat => stat !== null);
+}
+
+/**
+ * Read the resident set size of a process
+ * @returns The size in bytes, or 0 if the process has no memory or exited meanwhile
+ */
+async function readRssBytes(pid: number): Promise<number> {
+  try {
+    return parseVmRss(await fs.readFile(`/proc/${pid}/status`, 'utf8')) ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Samples CPU and memory usage of a process tree from /proc.
+ * CPU usage is computed from the difference between consecutive samples.
+ */
+export class ResourceSampler {
+  private previous: { pid: number; time: number; cpuTicks: number } | null = null;
+
+  /**
+   * Sample the resource usage of a process and its descendants
+   * @param rootPid Process id of the root of the tree
+   * @param startedAt Time the process was started, used to average CPU usage on the first sample
+   * @returns The resource usage, or null where /proc is unavailable
+   */
+  async sample(rootPid: number, startedAt?: number): Promise<ResourceUsage | null> {
+    if (process.platform !== 'linux') {
+      return null;
+    }
+
+    let tree: ProcStat[];
+    try {
+      tree = collectProcessTree(await readAllProcStats(), rootPid);
+    } catch {
+      return null;
+    }
+    if (tree.length === 0) {
+      return null;
+    }
+
+    const now = Date.now();
+    const cpuTicks = tree.reduce((sum, stat) => sum + stat.cpuTicks, 0);
+    const previous =
+      this.previous && this.previous.pid === rootPid
+        ? this.previous
+        : startedAt !== undefined
+          ? { pid: rootPid, time: startedAt, cpuTicks: 0 }
+          : null;
+    this.previous = { pid: rootPid, time: now, cpuTicks };
+
+    const elapsed = previous ? (now - previous.time) / 1000 : 0;
+    const cpuPercent =
+      previous && elapsed > 0
+        ? Math.round((((cpuTicks - previous.cpuTicks) / CLOCK_TICKS / elapsed) * 100) * 10) / 10
+        : null;
+
+    const rssBytes = (await Promise.all(tree.map((stat) => readRssBytes(stat.pid)))).reduce((sum, bytes) => sum + bytes, 0);
+
+    return {
+      processCount: tree.length,
+      rssBytes,
+      cpuPercent,
+    };
+  }
+}
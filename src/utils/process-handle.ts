@@ -0,0 +1,162 @@
+import * as pty from 'node-pty';
+import { spawn as spawnChild } from 'child_process';
+import { constants } from 'os';
+
+/**
+ * How a command is spawned: in a pseudo-terminal for interactive programs, or
+ * with pipes to keep stdout and stderr apart
+ */
+export type SpawnMode = 'pty' | 'pipe';
+
+/**
+ * All supported spawn modes
+ */
+export const SPAWN_MODES: readonly SpawnMode[] = ['pty', 'pipe'];
+
+/**
+ * Output stream a chunk of output was read from. Everything is stdout in a pseudo-terminal.
+ */
+export type OutputStream = 'stdout' | 'stderr';
+
+/**
+ * Time to wait after a piped process exited for its remaining output, before the
+ * exit is reported even though a background process still holds the pipes
+ */
+export const PIPE_CLOSE_TIMEOUT = 500;
+
+/**
+ * Options for spawning a process
+ */
+export interface SpawnOptions {
+  cwd: string;
+  env: NodeJS.ProcessEnv;
+  cols: number;
+  rows: number;
+  onData: (data: string, stream: OutputStream) => void;
+  /**
+   * Called once the process is running, for processes that are spawned
+   * asynchronously. A pseudo-terminal runs as soon as spawnPty returns.
+   */
+  onSpawn: () => void;
+  /** Called once when the process has exited and its output has been read */
+  onExit: (exitCode: number, signal: number | null) => void;
+  /** Called if the process could not be spawned */
+  onError: (error: Error) => void;
+}
+
+/**
+ * Running process, independent of how it was spawned
+ */
+export interface ProcessHandle {
+  readonly pid: number | undefined;
+  /**
+   * Write to the standard input of the process
+   * @throws Error if the input cannot be written
+   */
+  write(data: string): void;
+  /**
+   * Close the standard input of the process, so that it reads end-of-file
+   * @throws Error if the spawn mode cannot close the input
+   */
+  closeStdin(): void;
+  resize(cols: number, rows: number): void;
+  kill(signal?: string): void;
+}
+
+/**
+ * Spawn a process in a pseudo-terminal
+ * @throws Error if the process cannot be spawned
+ */
+export function spawnPty(command: string, args: string[], options: SpawnOptions): ProcessHandle {
+  const child = pty.spawn(command, args, {
+    name: 'xterm-color',
+    cols: options.cols,
+    rows: options.rows,
+    cwd: options.cwd,
+    env: { ...options.env, FORCE_COLOR: '1', TERM: 'xterm-256color' },
+    handleFlowControl: true,
+  });
+
+  child.onData((data) => options.onData(data, 'stdout'));
+  child.onExit(({ exitCode, signal }) => options.onExit(exitCode, signal || null));
+
+  return {
+    pid: child.pid,
+    write: (data): void => child.write(data),
+    closeStdin: (): void => {
+      throw new Error('Closing stdin is only supported in pipe mode, send ctrl+d instead');
+    },
+    resize: (cols, rows): void => child.resize(cols, rows),
+    kill: (signal): void => child.kill(signal),
+  };
+}
+
+/**
+ * Spawn a process with separate pipes for stdin, stdout and stderr. The process
+ * runs once onSpawn is called; a missing executable is reported with onError instead.
+ * The process leads its own process group, so that signals also reach the
+ * processes it started.
+ */
+export function spawnPipe(command: string, args: string[], options: SpawnOptions): ProcessHandle {
+  const child = spawnChild(command, args, {
+    cwd: options.cwd,
+    env: { ...options.env, FORCE_COLOR: '1' },
+    stdio: 'pipe',
+    // A new process group; on Windows this would open a new console instead
+    detached: process.platform !== 'win32',
+  });
+
+  child.stdout.setEncoding('utf8');
+  child.stderr.setEncoding('utf8');
+  let exited = false;
+  // Output of background processes that outlive the command is not attributed to it
+  child.stdout.on('data', (data: string) => !exited && options.onData(data, 'stdout'));
+  child.stderr.on('data', (data: string) => !exited && options.onData(data, 'stderr'));
+  // Writing after the process exited fails asynchronously with EPIPE, which is of no interest
+  child.stdin.on('error', () => undefined);
+
+  let failed = false;
+  child.on('spawn', () => options.onSpawn());
+  child.on('error', (error) => {
+    failed = true;
+    options.onError(error);
+  });
+  // The process exited on 'exit', but its output is read until 'close', which never
+  // comes while a background process it started still holds the pipes
+  child.on('exit', (code, signal) => {
+    const report = (): void => {
+      if (!exited && !failed) {
+        exited = true;
+        clearTimeout(timer);
+        options.onExit(code ?? 0, signal ? constants.signals[signal] : null);
+      }
+    };
+    const timer = setTimeout(report, PIPE_CLOSE_TIMEOUT);
+    child.once('close', report);
+  });
+
+  return {
+    get pid(): number | undefined {
+      return child.pid;
+    },
+    write: (data): void => {
+      if (!child.stdin.writable) {
+        throw new Error('stdin is closed');
+      }
+      child.stdin.write(data);
+    },
+    closeStdin: (): void => {
+      child.stdin.end();
+    },
+    // Pipes have no terminal size
+    resize: (): void => undefined,
+    kill: (signal = 'SIGTERM'): void => {
+      try {
+        process.kill(-(child.pid as number), signal);
+      } catch {
+        // Not a process group leader, e.g. on Windows, or not spawned
+        child.kill(signal as NodeJS.Signals);
+      }
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import { ProcessManager, parseCommandSpec } from './process-manager';
+import { ProcessStatus } from './command-runner';
+import * as pty from 'node-pty';
+
+// Mock node-pty
+jest.mock('node-pty', () => ({
+  spawn: jest.fn(() => ({
+    onData: jest.fn(),
+    onExit: jest.fn(),
+    write: jest.fn(),
+    kill: jest.fn(),
+  })),
+}));
+
+describe('parseCommandSpec', () => {
+  it('should parse a named command', () => {
+    expect(parseCommandSpec('api=npm run api')).toEqual({ name: 'api', command: 'npm run api' });
+  });
+
+  it('should treat a command without a name as unnamed', () => {
+    expect(parseCommandSpec('expo start')).toEqual({ command: 'expo start' });
+  });
+
+  it('should not mistake an environment assignment for a name', () => {
+    expect(parseCommandSpec('NODE_ENV=dev npm start')).toEqual({ command: 'NODE_ENV=dev npm start' });
+  });
+});
+
+describe('ProcessManager', () => {
+  let manager: ProcessManager;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    manager = new ProcessManager();
+  });
+
+  describe('add', () => {
+    it('should register runners by name', () => {
+      manager.add('expo', { command: 'expo start' });
+      manager.add('api', { command: 'npm run api' });
+      expect(manager.getNames()).toEqual(['expo', 'api']);
+      expect(manager.getSize()).toBe(2);
+      expect(manager.get('api')?.getCommandLine()).toBe('npm run api');
+    });
+
+    it('should reject duplicate names', () => {
+      manager.add('api', { command: 'npm run api' });
+      expect(() => manager.add('api', { command: 'npm start' })).toThrow('Duplicate process name "api"');
+    });
+  });
+
+  describe('resolve', () => {
+    it('should resolve the only process when no name is given', () => {
+      const runner = manager.add('expo', { command: 'expo start' });
+      expect(manager.resolve()).toBe(runner);
+    });
+
+    it('should require a name when several processes are managed', () => {
+      manager.add('expo', { command: 'expo start' });
+      manager.add('api', { command: 'npm run api' });
+      expect(() => manager.resolve()).toThrow('available: expo, api');
+    });
+
+    it('should reject unknown names', () => {
+      manager.add('expo', { command: 'expo start' });
+      expect(() => manager.resolve('tsc')).toThrow('Unknown process "tsc"');
+    });
+  });
+
+  describe('startAll', () => {
+    it('should start every process', () => {
+      manager.add('expo', { command: 'expo start' });
+      manager.add('api', { command: 'npm run api' });
+      manager.startAll();
+      expect(pty.spawn).toHaveBeenCalledTimes(2);
+      expect(manager.entries().every(([, runner]) => runner.getStatus() === ProcessStatus.RUNNING)).toBe(true);
+      expect(manager.getPrimary()).toBe(manager.get('expo'));
+    });
+  });
+});
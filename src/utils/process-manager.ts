@@ -0,0 +1,148 @@
+import { CommandRunner, CommandRunnerOptions } from './command-runner.js';
+import { parseCommandLine } from './shell-words.js';
+
+/**
+ * Name given to commands that are started without an explicit name
+ */
+export const DEFAULT_PROCESS_NAME = 'default';
+
+/**
+ * Name given to the nth command started without an explicit name, counting from 1
+ */
+export function defaultProcessName(index: number): string {
+  return index === 1 ? DEFAULT_PROCESS_NAME : `${DEFAULT_PROCESS_NAME}-${index}`;
+}
+
+/**
+ * Named command definition
+ */
+export interface CommandDefinition extends CommandRunnerOptions {
+  name: string;
+}
+
+/**
+ * Parse a `name=command` specification as passed to `--command`.
+ * Names are lowercase so that leading environment assignments such as
+ * `NODE_ENV=dev npm start` are not mistaken for a name.
+ */
+export function parseCommandSpec(spec: string): { name?: string; command: string } {
+  const match = /^([a-z0-9][a-z0-9._-]*)=(.+)$/.exec(spec);
+  if (!match) {
+    return { command: spec };
+  }
+  return { name: match[1], command: match[2] };
+}
+
+/**
+ * Check that a command given as a string can be run without a shell, so that
+ * mistakes are reported before any command starts
+ * @throws Error naming the command on unterminated quotes and on syntax that needs a shell
+ */
+export function checkCommandLine(definition: CommandDefinition): void {
+  if (typeof definition.command !== 'string' || definition.shell) {
+    return;
+  }
+  try {
+    parseCommandLine(definition.command);
+  } catch (error) {
+    throw new Error(`Command "${definition.name}": ${(error as Error).message}`);
+  }
+}
+
+/**
+ * Supervises a set of named CommandRunner instances
+ */
+export class ProcessManager {
+  private readonly runners = new Map<string, CommandRunner>();
+
+  /**
+   * Create a runner for a command and register it under the given name
+   */
+  add(name: string, options: CommandRunnerOptions): CommandRunner {
+    if (this.runners.has(name)) {
+      throw new Error(`Duplicate process name "${name}"`);
+    }
+    const runner = new CommandRunner(options);
+    this.runners.set(name, runner);
+    return runner;
+  }
+
+  /**
+   * Get a runner by name
+   */
+  get(name: string): CommandRunner | undefined {
+    return this.runners.get(name);
+  }
+
+  /**
+   * Resolve a process name. The name may be omitted when only one process is managed.
+   * @throws Error if the name is unknown or ambiguous
+   */
+  resolveName(name?: string): string {
+    if (name === undefined) {
+      if (this.runners.size === 1) {
+        return this.getNames()[0];
+      }
+      throw new Error(
+        `Process name is required when running multiple processes (available: ${this.getNames().join(', ')})`,
+      );
+    }
+
+    if (!this.runners.has(name)) {
+      throw new Error(`Unknown process "${name}" (available: ${this.getNames().join(', ')})`);
+    }
+    return name;
+  }
+
+  /**
+   * Resolve a runner by name. The name may be omitted when only one process is managed.
+   * @throws Error if the name is unknown or ambiguous
+   */
+  resolve(name?: string): CommandRunner {
+    return this.runners.get(this.resolveName(name)) as CommandRunner;
+  }
+
+  /**
+   * Get the first registered runner, which receives local keypresses
+   */
+  getPrimary(): CommandRunner | undefined {
+    return this.runners.values().next().value;
+  }
+
+  /**
+   * Get the names of all managed processes in registration order
+   */
+  getNames(): string[] {
+    return Array.from(this.runners.keys());
+  }
+
+  /**
+   * Get all managed runners with their names in registration order
+   */
+  entries(): Array<[string, CommandRunner]> {
+    return Array.from(this.runners.entries());
+  }
+
+  /**
+   * Get the number of managed processes
+   */
+  getSize(): number {
+    return this.runners.size;
+  }
+
+  /**
+   * Start all managed processes
+   */
+  startAll(): void {
+    for (const runner of this.runners.values()) {
+      runner.start();
+    }
+  }
+
+  /**
+   * Stop all managed processes
+   */
+  stopAll(): Promise<void> {
+    return Promise.all(Array.from(this.runners.values(), (runner) => runner.stop())).then(() => undefined);
+  }
+}
@@ -0,0 +1,91 @@
+import { ResourceNotifier } from './resource-notifier';
+
+describe('ResourceNotifier', () => {
+  let notifier: ResourceNotifier;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    notifier = new ResourceNotifier(100);
+  });
+
+  afterEach(() => {
+    notifier.dispose();
+    jest.useRealTimers();
+  });
+
+  it('should notify subscribers once per interval', async () => {
+    const subscriber = jest.fn();
+    notifier.subscribe('logs://recent', subscriber);
+
+    notifier.notify('logs://recent');
+    notifier.notify('logs://recent');
+    jest.advanceTimersByTime(50);
+    notifier.notify('logs://recent');
+    expect(subscriber).not.toHaveBeenCalled();
+
+    jest.advanceTimersByTime(50);
+    await Promise.resolve();
+    expect(subscriber).toHaveBeenCalledTimes(1);
+    expect(subscriber).toHaveBeenCalledWith('logs://recent');
+
+    notifier.notify('logs://recent');
+    jest.advanceTimersByTime(100);
+    await Promise.resolve();
+    expect(subscriber).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only notify subscribers of the changed resource', async () => {
+    const logs = jest.fn();
+    const status = jest.fn();
+    notifier.subscribe('logs://recent', logs);
+    notifier.subscribe('server://status', status);
+
+    notifier.notify('server://status');
+    jest.advanceTimersByTime(100);
+    await Promise.resolve();
+    expect(logs).not.toHaveBeenCalled();
+    expect(status).toHaveBeenCalledTimes(1);
+  });
+
+  it('should notify the subscribed resources matching a predicate', async () => {
+    const subscriber = jest.fn();
+    notifier.subscribe('logs://api/tail/10', subscriber);
+    notifier.subscribe('logs://api/errors', subscriber);
+    notifier.subscribe('logs://web/errors', subscriber);
+
+    notifier.notifyWhere((uri) => uri.startsWith('logs://api/'));
+    jest.advanceTimersByTime(100);
+    await Promise.resolve();
+
+    expect(subscriber.mock.calls.map(([uri]) => uri)).toEqual(['logs://api/tail/10', 'logs://api/errors']);
+  });
+
+  it('should stop notifying after unsubscribing', async () => {
+    const subscriber = jest.fn();
+    notifier.subscribe('logs://recent', subscriber);
+    notifier.subscribe('server://status', subscriber);
+
+    notifier.notify('logs://recent');
+    notifier.unsubscribeAll(subscriber);
+    notifier.notify('server://status');
+    jest.advanceTimersByTime(100);
+    await Promise.resolve();
+
+    expect(subscriber).not.toHaveBeenCalled();
+    expect(notifier.hasSubscribers('logs://recent')).toBe(false);
+  });
+
+  it('should keep notifying other subscribers when one fails', async () => {
+    const failing = jest.fn().mockRejectedValue(new Error('Not connected'));
+    const subscriber = jest.fn();
+    notifier.subscribe('logs://recent', failing);
+    notifier.subscribe('logs://recent', subscriber);
+
+    notifier.notify('logs://recent');
+    jest.advanceTimersByTime(100);
+    await Promise.resolve();
+
+    expect(failing).toHaveBeenCalled();
+    expect(subscriber).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Callback that tells a client that a resource changed
+ */
+export type ResourceSubscriber = (uri: string) => Promise<void> | void;
+
+/**
+ * Tracks resource subscriptions of MCP sessions and notifies them of changes.
+ * Changes are coalesced so that a subscriber hears about a resource at most once
+ * per interval, even while a command prints output continuously.
+ */
+export class ResourceNotifier {
+  private subscriptions = new Map<string, Set<ResourceSubscriber>>();
+  private timers = new Map<string, NodeJS.Timeout>();
+
+  /**
+   * Create a new notifier
+   * @param interval Milliseconds to collect changes of a resource before notifying (default: 250)
+   */
+  constructor(private readonly interval: number = 250) {}
+
+  /**
+   * Subscribe to updates of a resource
+   */
+  subscribe(uri: string, subscriber: ResourceSubscriber): void {
+    const subscribers = this.subscriptions.get(uri) || new Set<ResourceSubscriber>();
+    subscribers.add(subscriber);
+    this.subscriptions.set(uri, subscribers);
+  }
+
+  /**
+   * Unsubscribe from updates of a resource
+   */
+  unsubscribe(uri: string, subscriber: ResourceSubscriber): void {
+    const subscribers = this.subscriptions.get(uri);
+    subscribers?.delete(subscriber);
+    if (subscribers?.size === 0) {
+      this.subscriptions.delete(uri);
+      this.cancel(uri);
+    }
+  }
+
+  /**
+   * Remove all subscriptions of a subscriber, e.g. when its session closes
+   */
+  unsubscribeAll(subscriber: ResourceSubscriber): void {
+    for (const uri of Array.from(this.subscriptions.keys())) {
+      this.unsubscribe(uri, subscriber);
+    }
+  }
+
+  /**
+   * Check whether anyone is subscribed to a resource
+   */
+  hasSubscribers(uri: string): boolean {
+    return this.subscriptions.has(uri);
+  }
+
+  /**
+   * Report a change of a resource. Subscribers are notified once the interval
+   * has passed, with all changes made in the meantime.
+   */
+  notify(uri: string): void {
+    if (!this.subscriptions.has(uri) || this.timers.has(uri)) {
+      return;
+    }
+
+    this.timers.set(
+      uri,
+      setTimeout(() => {
+        this.timers.delete(uri);
+        for (const subscriber of this.subscriptions.get(uri) || []) {
+          // A session that went away is cleaned up when it closes
+          Promise.resolve()
+            .then(() => subscriber(uri))
+            .catch(() => undefined);
+        }
+      }, this.interval),
+    );
+  }
+
+  /**
+   * Report a change of all subscribed resources whose URI matches a predicate,
+   * e.g. every resource of one process
+   */
+  notifyWhere(predicate: (uri: string) => boolean): void {
+    for (const uri of this.subscriptions.keys()) {
+      if (predicate(uri)) {
+        this.notify(uri);
+      }
+    }
+  }
+
+  /**
+   * Cancel all pending notifications
+   */
+  dispose(): void {
+    for (const uri of Array.from(this.timers.keys())) {
+      this.cancel(uri);
+    }
+  }
+
+  /**
+   * Cancel the pending notification of a resource
+   */
+  private cancel(uri: string): void {
+    clearTimeout(this.timers.get(uri));
+    this.timers.delete(uri);
+  }
+}
@@ -0,0 +1,56 @@
+import { RestartTracker } from './restart-policy';
+
+describe('RestartTracker', () => {
+  describe('shouldRestart', () => {
+    it('should never restart with the never mode', () => {
+      const tracker = new RestartTracker({ mode: 'never' });
+      expect(tracker.shouldRestart(1)).toBe(false);
+    });
+
+    it('should only restart failed exits with the on-failure mode', () => {
+      const tracker = new RestartTracker({ mode: 'on-failure' });
+      expect(tracker.shouldRestart(0)).toBe(false);
+      expect(tracker.shouldRestart(1)).toBe(true);
+      expect(tracker.shouldRestart(0, 9)).toBe(true);
+    });
+
+    it('should restart every exit with the always mode', () => {
+      const tracker = new RestartTracker({ mode: 'always' });
+      expect(tracker.shouldRestart(0)).toBe(true);
+    });
+  });
+
+  describe('next', () => {
+    it('should back off exponentially up to the maximum delay', () => {
+      const tracker = new RestartTracker({
+        mode: 'always',
+        maxRestarts: 10,
+        initialDelay: 100,
+        maxDelay: 500,
+      });
+      const delays = [0, 1, 2, 3, 4].map((i) => tracker.next(i)?.delay);
+      expect(delays).toEqual([100, 200, 400, 500, 500]);
+    });
+
+    it('should report a crash loop after too many restarts within the window', () => {
+      const tracker = new RestartTracker({ mode: 'always', maxRestarts: 2, window: 1000 });
+      expect(tracker.next(0)).toEqual({ delay: 1000, attempt: 1 });
+      expect(tracker.next(100)).toEqual({ delay: 2000, attempt: 2 });
+      expect(tracker.next(200)).toBeNull();
+    });
+
+    it('should forget restarts outside of the window', () => {
+      const tracker = new RestartTracker({ mode: 'always', maxRestarts: 2, window: 1000 });
+      tracker.next(0);
+      tracker.next(100);
+      expect(tracker.next(1500)).toEqual({ delay: 1000, attempt: 1 });
+    });
+
+    it('should start over after a reset', () => {
+      const tracker = new RestartTracker({ mode: 'always', maxRestarts: 1 });
+      tracker.next(0);
+      tracker.reset();
+      expect(tracker.next(1)).toEqual({ delay: 1000, attempt: 1 });
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * When a command should be restarted after it exits
+ */
+export type RestartMode = 'never' | 'on-failure' | 'always';
+
+/**
+ * All supported restart modes
+ */
+export const RESTART_MODES: readonly RestartMode[] = ['never', 'on-failure', 'always'];
+
+/**
+ * Restart policy options
+ */
+export interface RestartPolicy {
+  mode: RestartMode;
+  /** Maximum number of restarts allowed within the window before giving up (default: 5) */
+  maxRestarts?: number;
+  /** Length of the crash-loop detection window in milliseconds (default: 60000) */
+  window?: number;
+  /** Delay before the first restart in milliseconds, doubled for each further restart (default: 1000) */
+  initialDelay?: number;
+  /** Upper bound for the restart delay in milliseconds (default: 30000) */
+  maxDelay?: number;
+}
+
+/**
+ * Decides whether and when an exited command is restarted, with exponential
+ * backoff and crash-loop detection over a sliding time window
+ */
+export class RestartTracker {
+  private restarts: number[] = [];
+  private readonly mode: RestartMode;
+  private readonly maxRestarts: number;
+  private readonly window: number;
+  private readonly initialDelay: number;
+  private readonly maxDelay: number;
+
+  /**
+   * Create a new restart tracker
+   * @param policy Restart policy to apply
+   */
+  constructor(policy: RestartPolicy) {
+    this.mode = policy.mode;
+    this.maxRestarts = policy.maxRestarts ?? 5;
+    this.window = policy.window ?? 60000;
+    this.initialDelay = policy.initialDelay ?? 1000;
+    this.maxDelay = policy.maxDelay ?? 30000;
+  }
+
+  /**
+   * Check whether the policy asks for a restart after the given exit
+   */
+  shouldRestart(exitCode: number, signal?: number | string | null): boolean {
+    if (this.mode === 'always') {
+      return true;
+    }
+    if (this.mode === 'on-failure') {
+      return exitCode !== 0 || !!signal;
+    }
+    return false;
+  }
+
+  /**
+   * Record a restart and compute its delay
+   * @returns The delay and attempt number, or null if the command is crash-looping
+   */
+  next(now: number = Date.now()): { delay: number; attempt: number } | null {
+    this.restarts = this.restarts.filter((time) => now - time < this.window);
+
+    if (this.restarts.length >= this.maxRestarts) {
+      return null;
+    }
+
+    const delay = Math.min(this.initialDelay * 2 ** this.restarts.length, this.maxDelay);
+    this.restarts.push(now);
+    return { delay, attempt: this.restarts.length };
+  }
+
+  /**
+   * Forget all recorded restarts
+   */
+  reset(): void {
+    this.restarts = [];
+  }
+}
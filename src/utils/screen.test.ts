@@ -0,0 +1,59 @@
+import { TerminalScreen } from './screen';
+
+describe('TerminalScreen', () => {
+  let screen: TerminalScreen;
+
+  beforeEach(() => {
+    screen = new TerminalScreen(20, 3, 100);
+  });
+
+  afterEach(() => {
+    screen.dispose();
+  });
+
+  it('should render plain output with the cursor position', async () => {
+    screen.write('hello\r\nworld');
+    const snapshot = await screen.snapshot();
+    expect(snapshot.lines).toEqual(['hello', 'world', '']);
+    expect(snapshot.cursor).toEqual({ x: 5, y: 1 });
+    expect(snapshot.cols).toBe(20);
+    expect(snapshot.rows).toBe(3);
+  });
+
+  it('should apply cursor movement and line erasure', async () => {
+    screen.write('Progress: 10%\r\nmenu');
+    // Move up one line, erase it and redraw
+    screen.write('\x1b[1A\r\x1b[2KProgress: 100%');
+    const snapshot = await screen.snapshot();
+    expect(snapshot.lines).toEqual(['Progress: 100%', 'menu', '']);
+  });
+
+  it('should strip colors', async () => {
+    screen.write('\x1b[31mred\x1b[0m text');
+    expect((await screen.snapshot()).lines[0]).toBe('red text');
+  });
+
+  it('should return scrollback lines on request', async () => {
+    screen.write('1\r\n2\r\n3\r\n4\r\n5');
+    const snapshot = await screen.snapshot(1);
+    expect(snapshot.lines).toEqual(['3', '4', '5']);
+    expect(snapshot.scrollback).toEqual(['2']);
+    expect((await screen.snapshot()).scrollback).toEqual([]);
+    expect((await screen.snapshot(10)).scrollback).toEqual(['1', '2']);
+  });
+
+  it('should report the alternate screen of full-screen applications', async () => {
+    screen.write('shell\r\n\x1b[?1049h\x1b[Happ');
+    const snapshot = await screen.snapshot();
+    expect(snapshot.alternateScreen).toBe(true);
+    expect(snapshot.lines).toEqual(['app', '', '']);
+  });
+
+  it('should clear everything on reset', async () => {
+    screen.write('old\r\n\r\n\r\noutput');
+    screen.reset();
+    const snapshot = await screen.snapshot(10);
+    expect(snapshot.lines).toEqual(['', '', '']);
+    expect(snapshot.scrollback).toEqual([]);
+  });
+});
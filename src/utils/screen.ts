@@ -0,0 +1,96 @@
+import * as xtermModule from '@xterm/headless';
+import type { Terminal as XtermTerminal } from '@xterm/headless';
+
+// The package is CommonJS, which Node only exposes as a default export while transpiled code sees the named exports
+const { Terminal } = ((xtermModule as { default?: typeof xtermModule }).default ?? xtermModule) as typeof xtermModule;
+
+/**
+ * Snapshot of a terminal screen as plain text
+ */
+export interface ScreenSnapshot {
+  cols: number;
+  rows: number;
+  /** Cursor position, zero-based from the top left of the visible screen */
+  cursor: { x: number; y: number };
+  /** Whether a full-screen application switched to the alternate screen, which has no scrollback */
+  alternateScreen: boolean;
+  /** Visible lines, top to bottom, without trailing whitespace */
+  lines: string[];
+  /** Lines that scrolled off the top of the screen, oldest first */
+  scrollback: string[];
+}
+
+/**
+ * Emulates a terminal in memory so that output which redraws the screen with
+ * cursor movement (menus, watch UIs, progress bars) can be read as it is displayed
+ */
+export class TerminalScreen {
+  private readonly terminal: XtermTerminal;
+
+  /**
+   * Create a new terminal screen
+   * @param cols Number of columns
+   * @param rows Number of rows
+   * @param scrollback Number of lines kept after they scroll off the screen
+   * @param convertEol Start a new line on bare line feeds, for output written to pipes rather than a terminal
+   */
+  constructor(cols: number, rows: number, scrollback: number = 1000, convertEol: boolean = false) {
+    this.terminal = new Terminal({ cols, rows, scrollback, convertEol, allowProposedApi: true });
+  }
+
+  /**
+   * Feed output of the process into the emulator
+   */
+  write(data: string): void {
+    this.terminal.write(data);
+  }
+
+  /**
+   * Clear the screen and scrollback and reset all terminal modes
+   */
+  reset(): void {
+    // Queue a full reset (RIS) behind pending output instead of resetting right away
+    this.terminal.write('\x1bc');
+  }
+
+  /**
+   * Change the size of the screen, reflowing wrapped lines
+   */
+  resize(cols: number, rows: number): void {
+    this.terminal.resize(cols, rows);
+  }
+
+  /**
+   * Take a snapshot of the screen once all written output has been processed
+   * @param scrollbackLines Maximum number of scrollback lines to include (default: none)
+   */
+  async snapshot(scrollbackLines: number = 0): Promise<ScreenSnapshot> {
+    // Output is parsed asynchronously, the callback runs once everything before it was processed
+    await new Promise<void>((resolve) => this.terminal.write('', resolve));
+
+    const buffer = this.terminal.buffer.active;
+    const readLines = (start: number, end: number): string[] => {
+      const lines: string[] = [];
+      for (let y = start; y < end; y++) {
+        lines.push(buffer.getLine(y)?.translateToString(true) ?? '');
+      }
+      return lines;
+    };
+
+    return {
+      cols: this.terminal.cols,
+      rows: this.terminal.rows,
+      cursor: { x: buffer.cursorX, y: buffer.cursorY },
+      alternateScreen: buffer.type === 'alternate',
+      lines: readLines(buffer.baseY, buffer.baseY + this.terminal.rows),
+      scrollback: readLines(Math.max(buffer.baseY - scrollbackLines, 0), buffer.baseY),
+    };
+  }
+
+  /**
+   * Release the resources of the emulator
+   */
+  dispose(): void {
+    this.terminal.dispose();
+  }
+}
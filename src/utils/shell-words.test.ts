@@ -0,0 +1,96 @@
+import { parseCommandLine, quoteShellWord, splitShellWords } from './shell-words';
+
+describe('splitShellWords', () => {
+  it('should split on whitespace', () => {
+    expect(splitShellWords('  npm   run\tdev ')).toEqual(['npm', 'run', 'dev']);
+    expect(splitShellWords('')).toEqual([]);
+  });
+
+  it('should keep quoted text together', () => {
+    expect(splitShellWords(`node "my script.js" 'it''s' --name="a b"`)).toEqual([
+      'node',
+      'my script.js',
+      'its',
+      '--name=a b',
+    ]);
+    expect(splitShellWords(`echo '' ""`)).toEqual(['echo', '', '']);
+  });
+
+  it('should handle escapes', () => {
+    expect(splitShellWords('cat my\\ file.txt')).toEqual(['cat', 'my file.txt']);
+    expect(splitShellWords('echo "say \\"hi\\" \\n"')).toEqual(['echo', 'say "hi" \\n']);
+    expect(splitShellWords("echo 'back\\slash'")).toEqual(['echo', 'back\\slash']);
+    expect(splitShellWords('npm \\\n start')).toEqual(['npm', 'start']);
+  });
+
+  it('should treat quoted and escaped operators as text', () => {
+    expect(splitShellWords(`grep "a|b" '&&' \\;`)).toEqual(['grep', 'a|b', '&&', ';']);
+  });
+
+  it('should skip comments', () => {
+    expect(splitShellWords('npm start # dev server')).toEqual(['npm', 'start']);
+    expect(splitShellWords('echo a#b')).toEqual(['echo', 'a#b']);
+  });
+
+  it('should reject syntax that needs a shell', () => {
+    expect(() => splitShellWords('npm run build && npm start')).toThrow('shell syntax "&&"');
+    expect(() => splitShellWords('tail -f log | grep error')).toThrow('shell syntax "|"');
+    expect(() => splitShellWords('npm start > out.log')).toThrow('shell syntax ">"');
+    expect(() => splitShellWords('echo $HOME')).toThrow('shell syntax "$"');
+    expect(() => splitShellWords('echo "$HOME"')).toThrow('--shell');
+  });
+
+  it('should reject unquoted globs, tilde and brace expansion', () => {
+    expect(() => splitShellWords('tsc src/*.ts')).toThrow('shell syntax "*"');
+    expect(() => splitShellWords('ls file?.txt')).toThrow('shell syntax "?"');
+    expect(() => splitShellWords('node ~/app.js')).toThrow('shell syntax "~"');
+    expect(() => splitShellWords('touch {a,b}.txt')).toThrow('shell syntax "{a,b}"');
+    expect(() => splitShellWords('seq-files file{1..3}')).toThrow('shell syntax "{1..3}"');
+  });
+
+  it('should pass quoted globs and tilde, and braces without expansion, on literally', () => {
+    expect(splitShellWords(`jest '*.test.ts' "file?" \\~/app a~b`)).toEqual(['jest', '*.test.ts', 'file?', '~/app', 'a~b']);
+    expect(splitShellWords(`node -e '{a,b}' {} {name}`)).toEqual(['node', '-e', '{a,b}', '{}', '{name}']);
+  });
+
+  it('should reject unterminated quotes', () => {
+    expect(() => splitShellWords(`echo 'oops`)).toThrow('Unterminated single quote');
+    expect(() => splitShellWords('echo "oops')).toThrow('Unterminated double quote');
+    expect(() => splitShellWords('echo \\')).toThrow('Unterminated escape');
+  });
+});
+
+describe('parseCommandLine', () => {
+  it('should move leading assignments to the environment', () => {
+    expect(parseCommandLine('NODE_ENV=dev PORT= npm start --env=prod')).toEqual({
+      env: { NODE_ENV: 'dev', PORT: '' },
+      argv: ['npm', 'start', '--env=prod'],
+    });
+  });
+
+  it('should allow quoted values', () => {
+    expect(parseCommandLine(`GREETING="hello world" node app.js`)).toEqual({
+      env: { GREETING: 'hello world' },
+      argv: ['node', 'app.js'],
+    });
+  });
+
+  it('should not treat quoted names as assignments', () => {
+    expect(parseCommandLine(`"A=b" cmd`)).toEqual({ env: {}, argv: ['A=b', 'cmd'] });
+    expect(parseCommandLine('1A=b cmd')).toEqual({ env: {}, argv: ['1A=b', 'cmd'] });
+  });
+});
+
+describe('quoteShellWord', () => {
+  it('should quote words only when needed', () => {
+    expect(quoteShellWord('--port=8080')).toBe('--port=8080');
+    expect(quoteShellWord('my file')).toBe(`'my file'`);
+    expect(quoteShellWord(`it's`)).toBe(`'it'\\''s'`);
+    expect(quoteShellWord('')).toBe(`''`);
+  });
+
+  it('should round-trip through splitShellWords', () => {
+    const words = ['a b', `it's`, '$HOME', '&&', ''];
+    expect(splitShellWords(words.map(quoteShellWord).join(' '))).toEqual(words);
+  });
+});
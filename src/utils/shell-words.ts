@@ -0,0 +1,165 @@
+/**
+ * Command line split into environment assignments and arguments
+ */
+export interface ParsedCommand {
+  /** Leading `NAME=value` assignments */
+  env: Record<string, string>;
+  argv: string[];
+}
+
+/**
+ * Word of a command line with the position of its first quoted or escaped character
+ */
+interface Word {
+  value: string;
+  /** Index into value where quoting started, or -1 if the word is not quoted */
+  quotedAt: number;
+}
+
+/**
+ * Shell operators that only a shell can execute, longest first
+ */
+const SHELL_OPERATORS = ['&&', '||', '>>', '<<', '|', '&', ';', '<', '>', '(', ')'];
+
+/**
+ * Brace expansion such as `{a,b}` or `{1..3}`, which a shell expands into several words
+ */
+const BRACE_EXPANSION = /^\{[^\s{}]*(?:,|\.\.)[^\s{}]*\}/;
+
+/**
+ * Characters that never need quoting
+ */
+const SAFE_WORD = /^[A-Za-z0-9_\-.,:/@%+=]+$/;
+
+/**
+ * Create the error for syntax that needs a shell
+ */
+function shellSyntaxError(syntax: string): Error {
+  return new Error(`Command uses shell syntax "${syntax}", run it with the shell option (--shell) instead`);
+}
+
+/**
+ * Split a command line into words following POSIX shell quoting rules
+ * @throws Error on unterminated quotes and on syntax that needs a shell (operators,
+ * expansions, unquoted globs and tilde)
+ */
+function splitWords(input: string): Word[] {
+  const words: Word[] = [];
+  let word: Word | null = null;
+  const quote = (current: Word | null): Word => {
+    const target = current ?? { value: '', quotedAt: -1 };
+    if (target.quotedAt < 0) {
+      target.quotedAt = target.value.length;
+    }
+    return target;
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end < 0) {
+        throw new Error('Unterminated single quote in command');
+      }
+      word = quote(word);
+      word.value += input.slice(i + 1, end);
+      i = end;
+    } else if (char === '"') {
+      word = quote(word);
+      for (i++; i < input.length && input[i] !== '"'; i++) {
+        if (input[i] === '$' || input[i] === '`') {
+          throw shellSyntaxError(input[i]);
+        }
+        // Inside double quotes a backslash only escapes these characters
+        if (input[i] === '\\' && '$`"\\\n'.includes(input[i + 1])) {
+          i++;
+          if (input[i] === '\n') {
+            continue;
+          }
+        }
+        word.value += input[i];
+      }
+      if (i >= input.length) {
+        throw new Error('Unterminated double quote in command');
+      }
+    } else if (char === '\\') {
+      if (i + 1 >= input.length) {
+        throw new Error('Unterminated escape at the end of the command');
+      }
+      i++;
+      // An escaped newline continues the line
+      if (input[i] !== '\n') {
+        word = quote(word);
+        word.value += input[i];
+      }
+    } else if (/\s/.test(char)) {
+      if (word) {
+        words.push(word);
+        word = null;
+      }
+    } else if (char === '#' && !word) {
+      // Comment until the end of the line
+      const end = input.indexOf('\n', i);
+      i = end < 0 ? input.length : end;
+    } else if (char === '$' || char === '`' || char === '*' || char === '?' || (char === '~' && !word)) {
+      // Globs and the home directory would be expanded by a shell, but are passed on literally here
+      throw shellSyntaxError(char);
+    } else if (char === '{' && BRACE_EXPANSION.test(input.slice(i))) {
+      throw shellSyntaxError((BRACE_EXPANSION.exec(input.slice(i)) as RegExpExecArray)[0]);
+    } else {
+      const operator = SHELL_OPERATORS.find((op) => input.startsWith(op, i));
+      if (operator) {
+        throw shellSyntaxError(operator);
+      }
+      word = word ?? { value: '', quotedAt: -1 };
+      word.value += char;
+    }
+  }
+
+  if (word) {
+    words.push(word);
+  }
+  return words;
+}
+
+/**
+ * Split a command line into arguments following POSIX shell quoting rules
+ * @throws Error on unterminated quotes and on syntax that needs a shell (operators, expansions)
+ */
+export function splitShellWords(input: string): string[] {
+  return splitWords(input).map((word) => word.value);
+}
+
+/**
+ * Parse a command line such as `NODE_ENV=dev npm run "my script"` into its
+ * leading environment assignments and its arguments
+ * @throws Error on unterminated quotes and on syntax that needs a shell (operators, expansions)
+ */
+export function parseCommandLine(input: string): ParsedCommand {
+  const words = splitWords(input);
+  const env: Record<string, string> = {};
+
+  let index = 0;
+  for (; index < words.length; index++) {
+    const { value, quotedAt } = words[index];
+    const match = /^[A-Za-z_][A-Za-z0-9_]*=/.exec(value);
+    // The name and equals sign must not be quoted, as in a shell
+    if (!match || (quotedAt >= 0 && quotedAt < match[0].length)) {
+      break;
+    }
+    env[match[0].slice(0, -1)] = value.slice(match[0].length);
+  }
+
+  return { env, argv: words.slice(index).map((word) => word.value) };
+}
+
+/**
+ * Quote a word for a POSIX shell if needed
+ */
+export function quoteShellWord(word: string): string {
+  if (SAFE_WORD.test(word)) {
+    return word;
+  }
+  return `'${word.replace(/'/g, `'\\''`)}'`;
+}
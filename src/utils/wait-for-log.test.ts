@@ -0,0 +1,67 @@
+import { CommandRunner } from './command-runner';
+import { waitForLog } from './wait-for-log';
+import * as pty from 'node-pty';
+
+// Mock node-pty
+jest.mock('node-pty', () => ({
+  spawn: jest.fn(),
+}));
+
+describe('waitForLog', () => {
+  let runner: CommandRunner;
+  let dataCallback: (data: string) => void;
+  let exitCallback: (event: { exitCode: number; signal?: number }) => void;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    const mockProcess = {
+      onData: jest.fn((callback) => { dataCallback = callback; }),
+      onExit: jest.fn((callback) => { exitCallback = callback; }),
+      write: jest.fn(),
+      kill: jest.fn(),
+    };
+    (pty.spawn as jest.Mock).mockReturnValue(mockProcess);
+    runner = new CommandRunner({ command: 'test-cmd' });
+    runner.start();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should resolve when a matching line is logged', async () => {
+    const waiting = waitForLog(runner, { pattern: /bundling complete/i, timeout: 1000, context: 1 });
+    dataCallback('Bundling 50%\r\n');
+    dataCallback('Bundling complete\r\n');
+    
+    const result = await waiting;
+    expect(result.outcome).toBe('matched');
+    expect(result.match?.content).toBe('Bundling complete');
+    expect(result.match?.before).toEqual([{ seq: 2, content: 'Bundling 50%' }]);
+    expect(result.cursor).toBe(3);
+  });
+
+  it('should match lines logged after the cursor before waiting', async () => {
+    const cursor = runner.getCursor();
+    dataCallback('Compiled successfully\r\n');
+    
+    const result = await waitForLog(runner, { pattern: /compiled/i, timeout: 1000, cursor });
+    expect(result.outcome).toBe('matched');
+  });
+
+  it('should time out when nothing matches', async () => {
+    const waiting = waitForLog(runner, { pattern: /never/, timeout: 1000 });
+    dataCallback('something else\r\n');
+    jest.advanceTimersByTime(1000);
+    
+    expect(await waiting).toEqual({ outcome: 'timeout', cursor: 2 });
+  });
+
+  it('should fail when the process exits', async () => {
+    const waiting = waitForLog(runner, { pattern: /never/, timeout: 1000 });
+    exitCallback({ exitCode: 1 });
+    
+    expect((await waiting).outcome).toBe('exit');
+    expect(runner.listenerCount('log')).toBe(0);
+  });
+});
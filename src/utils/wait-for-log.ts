@@ -0,0 +1,90 @@
+import { CommandRunner, LogEntry, ProcessStatus } from './command-runner.js';
+import { LogContextLine } from './log-search.js';
+
+/**
+ * Options for waiting for a log entry
+ */
+export interface WaitForLogOptions {
+  pattern: RegExp;
+  /** Milliseconds to wait before giving up */
+  timeout: number;
+  /** Also match entries logged after this cursor, to catch output that arrived before the wait started */
+  cursor?: number;
+  /** Number of entries before the match to include as context */
+  context?: number;
+  types?: Array<LogEntry['type']>;
+}
+
+/**
+ * Result of waiting for a log entry
+ */
+export interface WaitForLogResult {
+  outcome: 'matched' | 'timeout' | 'exit';
+  match?: {
+    seq: number;
+    timestamp: number;
+    type: LogEntry['type'];
+    content: string;
+    before: LogContextLine[];
+  };
+  /** Sequence number of the last entry seen, to use as cursor for further reads */
+  cursor: number;
+}
+
+/**
+ * Wait until the runner logs an entry whose ANSI-stripped text matches a pattern.
+ * Resolves with the outcome `timeout` or `exit` if nothing matches before the
+ * timeout expires or the process exits.
+ */
+export function waitForLog(runner: CommandRunner, options: WaitForLogOptions): Promise<WaitForLogResult> {
+  const { pattern, timeout, cursor, context = 0, types } = options;
+  const isMatch = (entry: LogEntry): boolean =>
+    (!types || types.includes(entry.type)) && pattern.test(entry.plain);
+
+  const matched = (entry: LogEntry): WaitForLogResult => {
+    const logs = runner.getLogs();
+    const index = logs.findIndex((log) => log.seq === entry.seq);
+    const before = index >= 0 ? logs.slice(Math.max(index - context, 0), index) : [];
+    return {
+      outcome: 'matched',
+      match: {
+        seq: entry.seq,
+        timestamp: entry.timestamp,
+        type: entry.type,
+        content: entry.plain,
+        before: before.map((log) => ({ seq: log.seq, content: log.plain })),
+      },
+      cursor: entry.seq,
+    };
+  };
+
+  if (cursor !== undefined) {
+    const existing = runner.getLogsSince(cursor).entries.find(isMatch);
+    if (existing) {
+      return Promise.resolve(matched(existing));
+    }
+  }
+
+  if (runner.getStatus() !== ProcessStatus.RUNNING) {
+    return Promise.resolve({ outcome: 'exit', cursor: runner.getCursor() });
+  }
+
+  return new Promise((resolve) => {
+    const finish = (result: WaitForLogResult): void => {
+      clearTimeout(timer);
+      runner.off('log', onLog);
+      runner.off('exit', onExit);
+      resolve(result);
+    };
+    const onLog = (entry: LogEntry): void => {
+      if (isMatch(entry)) {
+        finish(matched(entry));
+      }
+    };
+    const onExit = (): void => finish({ outcome: 'exit', cursor: runner.getCursor() });
+    const timer = setTimeout(() => finish({ outcome: 'timeout', cursor: runner.getCursor() }), timeout);
+
+    runner.on('log', onLog);
+    runner.on('exit', onExit);
+  });
+}